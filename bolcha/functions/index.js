@@ -2,34 +2,464 @@
 import fetch from 'node-fetch';
 import { onCall, onRequest, HttpsError } from "firebase-functions/v2/https";
 import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentCreated, onDocumentUpdated, onDocumentDeleted } from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions";
 import admin from 'firebase-admin';
+import { createHash } from 'crypto';
 
 admin.initializeApp();
 
+// Supported chat languages; keep in sync with CHAT_LANGUAGES in src/chatLanguages.ts (and
+// firestore.rules). Proxy requests must use them, translation memory ids are built from
+// them, other keys in `rooms/{id}.activeLangs` are ignored.
+const CHAT_LANG_CODES = ['en', 'ja', 'zh-CN', 'zh-TW', 'ko', 'es', 'fr'];
+
+function isChatLang(code) {
+  return typeof code === 'string' && CHAT_LANG_CODES.includes(code);
+}
+
+// ================= Shared translation memory =================
+// translationMemory/{sha256(normalized text)}_{source}_{target} (source "auto" when unknown) —
+// read by clients (src/translationMemory.ts)
+// before calling any endpoint, written here after a successful upstream translation.
+// Entries pair an unmasked source with its unmasked translation, keyed like the clients' lookup
+// of a whole message. Masked texts (⟦n⟧ placeholders for protected spans / glossary terms, as
+// sent line by line to the proxy) are neither looked up nor stored. Only pairs of supported
+// languages get entries, so no caller-supplied string ever becomes part of a document id.
+const MEMORY_MAX_TEXT_LENGTH = 500;
+
+function normalizeMemoryText(text) {
+  return String(text).normalize('NFC').trim().replace(/[ \t]+/g, ' ');
+}
+
+function memoryRef(normalized, target, source) {
+  const hash = createHash('sha256').update(normalized, 'utf8').digest('hex');
+  return admin.firestore().doc(`translationMemory/${hash}_${source || 'auto'}_${target}`);
+}
+
+function isMemoryPair(target, source) {
+  return isChatLang(target) && (source === undefined || isChatLang(source));
+}
+
+async function readTranslationMemory(text, target, source) {
+  if (!isMemoryPair(target, source)) return null;
+  const normalized = normalizeMemoryText(text);
+  if (!normalized || normalized.length > MEMORY_MAX_TEXT_LENGTH || hasPlaceholder(normalized)) return null;
+  try {
+    const snap = await memoryRef(normalized, target, source).get();
+    const data = snap.exists ? snap.data() : null;
+    return data && data.source === normalized && typeof data.translation === 'string' ? data.translation : null;
+  } catch (e) {
+    logger.warn('translationMemory read failed', e);
+    return null;
+  }
+}
+
+async function writeTranslationMemory(text, target, source, translation) {
+  if (!isMemoryPair(target, source)) return;
+  const normalized = normalizeMemoryText(text);
+  if (!normalized || normalized.length > MEMORY_MAX_TEXT_LENGTH || typeof translation !== 'string' || !translation) return;
+  if (hasPlaceholder(normalized) || hasPlaceholder(translation)) return;
+  try {
+    await memoryRef(normalized, target, source).set({
+      source: normalized,
+      sourceLang: source || 'auto',
+      target,
+      translation,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (e) {
+    logger.warn('translationMemory write failed', e);
+  }
+}
+
+// GAS responses carry the text under one of several keys
+function extractTranslation(json) {
+  const t = json && (json.translatedText || json.text || json.translation);
+  return typeof t === 'string' ? t : null;
+}
+
 // Replace with your GAS deployment ID via env or constant
 const GAS_BASE_URL = process.env.GAS_BASE_URL || 'https://script.google.com/macros/s/AKfycbwD3O1N6IQWW_07H6cWiqx8FN-5u1CAOTHb2wmky1c1tgmOT7bO-if08gE49p3zenVO8A/exec';
 
-// v2 onRequest provides built-in CORS support
-export const translate = onRequest({ cors: true }, async (req, res) => {
-  const textParam = req.method === 'GET' ? (req.query.text || req.query.q) : (req.body.text || req.body.q);
-  const text = Array.isArray(textParam) ? textParam[0] : textParam;
-  if (!text) {
-    res.status(400).json({ error: 'text required' });
+// ================= Upstream translation backends =================
+// The proxy reads its upstream list from `admin/config.proxyUpstreams` (same entry format as
+// the client's `gasEndpoints`: plain string = GAS URL, `type:`-prefixed string, or
+// `{ type, url }` with type gas | libre | deepl | mock). Without config it falls back to
+// PROXY_UPSTREAMS (comma-separated) or GAS_BASE_URL / GAS_BASE_URL_2.
+// API keys never live in `admin/config` (readable by every signed-in user): they come from
+// `adminSecrets/translationKeys.keys` (`type:url` → key; no client can read it) or from
+// DEEPL_API_KEY / LIBRE_API_KEY.
+const UPSTREAM_CONFIG_TTL_MS = 60 * 1000;
+const UPSTREAM_FAILURES_TO_SKIP = 3;
+const UPSTREAM_COOLDOWN_MS = 30 * 1000;
+const UPSTREAM_TYPES = ['gas', 'libre', 'deepl', 'mock'];
+const UPSTREAM_ENV_KEYS = { deepl: 'DEEPL_API_KEY', libre: 'LIBRE_API_KEY' };
+// Local runs only (docker / functions-framework without a Firebase project): no ID token check,
+// no rate limits, no Firestore (config, translation memory). Never honoured on Cloud Functions
+// or Cloud Run, which set K_SERVICE.
+const LOCAL_MODE = process.env.PROXY_LOCAL_MODE === '1' && !process.env.K_SERVICE;
+
+function parseUpstream(entry) {
+  if (typeof entry === 'string') {
+    const trimmed = entry.trim();
+    if (!trimmed) return null;
+    const m = trimmed.match(/^(gas|libre|deepl|mock):(.*)$/);
+    return m ? { type: m[1], url: m[2].trim() } : { type: 'gas', url: trimmed };
+  }
+  if (entry && typeof entry === 'object') {
+    const type = UPSTREAM_TYPES.includes(entry.type) ? entry.type : 'gas';
+    const url = typeof entry.url === 'string' ? entry.url.trim() : '';
+    if (!url && type !== 'mock') return null;
+    return { type, url };
+  }
+  return null;
+}
+
+function envUpstreams() {
+  const list = process.env.PROXY_UPSTREAMS
+    ? process.env.PROXY_UPSTREAMS.split(/[, ]+/)
+    : [GAS_BASE_URL, process.env.GAS_BASE_URL_2];
+  return Array.from(new Set(list.filter(Boolean))).map(parseUpstream).filter(Boolean);
+}
+
+async function loadUpstreamKeys() {
+  try {
+    const snap = await admin.firestore().doc('adminSecrets/translationKeys').get();
+    const keys = snap.exists ? snap.data().keys : null;
+    return keys && typeof keys === 'object' ? keys : {};
+  } catch (e) {
+    logger.warn('could not load upstream API keys', e.message);
+    return {};
+  }
+}
+
+let upstreamCache = { at: 0, list: [] };
+
+async function loadUpstreams() {
+  if (Date.now() - upstreamCache.at < UPSTREAM_CONFIG_TTL_MS && upstreamCache.list.length) {
+    return upstreamCache.list;
+  }
+  let list = [];
+  let keys = {};
+  if (!LOCAL_MODE) {
+    try {
+      const snap = await admin.firestore().doc('admin/config').get();
+      const raw = snap.exists ? snap.data().proxyUpstreams : null;
+      if (Array.isArray(raw)) {
+        list = raw.map(parseUpstream).filter(Boolean);
+        if (raw.some((entry) => entry && typeof entry === 'object' && entry.apiKey)) {
+          logger.warn('ignoring apiKey in admin/config.proxyUpstreams (readable by all users); move it to adminSecrets/translationKeys');
+        }
+      }
+    } catch (e) {
+      logger.warn('could not load proxyUpstreams, using env', e.message);
+    }
+    keys = await loadUpstreamKeys();
+  }
+  if (!list.length) list = envUpstreams();
+  list = list.map((up) => {
+    const apiKey = keys[upstreamKey(up)] || process.env[UPSTREAM_ENV_KEYS[up.type]];
+    return apiKey ? { ...up, apiKey } : up;
+  });
+  upstreamCache = { at: Date.now(), list };
+  return list;
+}
+
+// Per-instance failover state: an upstream failing repeatedly is skipped for a while
+const upstreamState = new Map(); // `${type}:${url}` → { failures, skipUntil }
+
+function upstreamKey(up) {
+  return `${up.type}:${up.url}`;
+}
+
+function markUpstream(up, ok) {
+  const key = upstreamKey(up);
+  const s = upstreamState.get(key) || { failures: 0, skipUntil: 0 };
+  if (ok) {
+    s.failures = 0;
+    s.skipUntil = 0;
+  } else if (++s.failures >= UPSTREAM_FAILURES_TO_SKIP) {
+    s.skipUntil = Date.now() + UPSTREAM_COOLDOWN_MS;
+    s.failures = 0;
+  }
+  upstreamState.set(key, s);
+}
+
+function isQuotaText(text) {
+  return /too many times|quota/i.test(String(text || ''));
+}
+
+// Chinese is stored as zh-CN / zh-TW; LibreTranslate and DeepL name the variants differently
+function libreLang(code) {
+  return code === 'zh-TW' ? 'zt' : code.slice(0, 2);
+}
+
+function deeplLang(code, role) {
+  if (code.startsWith('zh')) return role === 'source' ? 'ZH' : code === 'zh-TW' ? 'ZH-HANT' : 'ZH-HANS';
+  return code.toUpperCase();
+}
+
+// Translate `texts` with one upstream. Resolves to an array of strings, or throws; a thrown
+// error with `quota: true` means the upstream's quota is used up.
+async function callUpstream(up, texts, target, source) {
+  const fail = (message, quota = false) => Object.assign(new Error(message), { quota });
+  switch (up.type) {
+    case 'mock':
+      return texts.map((t) => `[${target}] ${t}`);
+    case 'libre': {
+      const r = await fetch(up.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ q: texts, source: source ? libreLang(source) : 'auto', target: libreLang(target), format: 'text', ...(up.apiKey ? { api_key: up.apiKey } : {}) }),
+      });
+      if (!r.ok) throw fail(`HTTP ${r.status}`, r.status === 429);
+      const out = (await r.json()).translatedText;
+      if (!Array.isArray(out) || out.length !== texts.length) throw fail('malformed response');
+      return out;
+    }
+    case 'deepl': {
+      const params = new URLSearchParams({ target_lang: deeplLang(target, 'target') });
+      texts.forEach((t) => params.append('text', t));
+      if (source) params.set('source_lang', deeplLang(source, 'source'));
+      const headers = { 'Content-Type': 'application/x-www-form-urlencoded' };
+      if (up.apiKey) headers.Authorization = `DeepL-Auth-Key ${up.apiKey}`;
+      const r = await fetch(up.url, { method: 'POST', headers, body: params.toString() });
+      if (!r.ok) throw fail(`HTTP ${r.status}`, r.status === 456);
+      const out = ((await r.json()).translations || []).map((tr) => tr && tr.text);
+      if (out.length !== texts.length || out.some((t) => typeof t !== 'string')) throw fail('malformed response');
+      return out;
+    }
+    case 'gas':
+    default:
+      // GAS has no batch API: one GET per text
+      return Promise.all(texts.map(async (text) => {
+        const params = new URLSearchParams({ text, target });
+        if (source) params.set('source', source);
+        const r = await fetch(`${up.url}?${params.toString()}`);
+        if (!r.ok) throw fail(`HTTP ${r.status}`, r.status === 429);
+        const json = await r.json();
+        const translated = extractTranslation(json);
+        if (!translated) throw fail(String((json && (json.error || json.message)) || 'no text'), isQuotaText(json && (json.error || json.message)));
+        return translated;
+      }));
+  }
+}
+
+// Try the configured upstreams in order, skipping those in cooldown.
+// Resolves to { translations } or { error: 'quota-exceeded' | 'upstream-failed' }.
+async function translateViaUpstreams(texts, target, source) {
+  const upstreams = await loadUpstreams();
+  const now = Date.now();
+  const available = upstreams.filter((up) => (upstreamState.get(upstreamKey(up))?.skipUntil || 0) <= now);
+  let quotaHit = false;
+  for (const up of available.length ? available : upstreams) {
+    try {
+      const translations = await callUpstream(up, texts, target, source);
+      markUpstream(up, true);
+      return { translations };
+    } catch (e) {
+      quotaHit = quotaHit || !!e.quota;
+      markUpstream(up, false);
+      logger.warn('upstream failed', upstreamKey(up), e.message);
+    }
+  }
+  return { error: quotaHit ? 'quota-exceeded' : 'upstream-failed' };
+}
+
+// Per-instance response cache in front of the shared translation memory
+const RESPONSE_CACHE_MAX = 2000;
+const responseCache = new Map(); // `${target}:${source}:${text}` → translation, insertion order = LRU
+
+function cacheGet(text, target, source) {
+  const key = `${target}:${source || 'auto'}:${text}`;
+  const hit = responseCache.get(key);
+  if (hit !== undefined) {
+    responseCache.delete(key);
+    responseCache.set(key, hit);
+  }
+  return hit;
+}
+
+function cacheSet(text, target, source, translation) {
+  responseCache.set(`${target}:${source || 'auto'}:${text}`, translation);
+  if (responseCache.size > RESPONSE_CACHE_MAX) responseCache.delete(responseCache.keys().next().value);
+}
+
+// Cache → translation memory → upstreams for a list of texts. Missing entries stay null.
+async function translateTexts(texts, target, source) {
+  const results = texts.map((t) => cacheGet(t, target, source) ?? null);
+  await Promise.all(texts.map(async (t, i) => {
+    if (results[i] !== null || LOCAL_MODE) return;
+    const remembered = await readTranslationMemory(t, target, source);
+    if (remembered !== null) {
+      results[i] = remembered;
+      cacheSet(t, target, source, remembered);
+    }
+  }));
+  const missing = Array.from(new Set(texts.filter((_, i) => results[i] === null)));
+  let error = null;
+  if (missing.length) {
+    const outcome = await translateViaUpstreams(missing, target, source);
+    if (outcome.translations) {
+      await Promise.all(missing.map(async (t, i) => {
+        const translated = outcome.translations[i];
+        cacheSet(t, target, source, translated);
+        if (!LOCAL_MODE) await writeTranslationMemory(t, target, source, translated);
+      }));
+      texts.forEach((t, i) => {
+        if (results[i] === null) results[i] = cacheGet(t, target, source) ?? null;
+      });
+    } else {
+      error = outcome.error;
+    }
+  }
+  return { results, error };
+}
+
+// ================= Proxy guards: auth, rate limits, size =================
+// Errors are returned as `{ error: { code, message, retryAfterSeconds? } }`; the client
+// (`proxy` provider in src/translationProviders.ts) maps the codes onto its failover logic.
+const MAX_PROXY_TEXT_LENGTH = 5000;
+const MAX_BATCH_ITEMS = 50;
+const MAX_BATCH_CHARS = 20000;
+const RATE_WINDOW_MS = 60 * 1000;
+const USER_LIMIT_PER_WINDOW = Number(process.env.TRANSLATE_USER_LIMIT_PER_MIN) || 60;
+const IP_LIMIT_PER_WINDOW = Number(process.env.TRANSLATE_IP_LIMIT_PER_MIN) || 120;
+// Google's front end appends the address it saw to X-Forwarded-For; entries left of it are
+// whatever the client sent. Behind a load balancer, which appends its own address after the
+// client's, set TRANSLATE_TRUSTED_PROXY_HOPS=2.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRANSLATE_TRUSTED_PROXY_HOPS) || 1);
+// When the counters cannot be read the request is refused (fail closed), so an outage of
+// Firestore cannot turn the proxy into an unmetered one. TRANSLATE_RATE_LIMIT_FAIL_OPEN=1
+// lets requests through instead.
+const RATE_LIMIT_FAIL_OPEN = process.env.TRANSLATE_RATE_LIMIT_FAIL_OPEN === '1';
+const RATE_LIMIT_UNAVAILABLE_RETRY_SECONDS = 30;
+
+function sendError(res, status, code, message, extra = {}) {
+  if (extra.retryAfterSeconds) res.set('Retry-After', String(extra.retryAfterSeconds));
+  res.status(status).json({ error: { code, message, ...extra } });
+}
+
+// Firebase ID token from `Authorization: Bearer <token>`; null when missing or invalid
+async function verifyRequestUser(req) {
+  if (LOCAL_MODE) return { uid: 'local' };
+  const header = req.get('Authorization') || '';
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) return null;
+  try {
+    return await admin.auth().verifyIdToken(match[1]);
+  } catch (e) {
+    logger.info('rejected ID token', e.code || e.message);
+    return null;
+  }
+}
+
+// Client address for the per-IP limit: the hop added by the trusted front end, never the
+// client-controlled leftmost entry
+function requestIp(req) {
+  const hops = String(req.get('x-forwarded-for') || '').split(',').map((h) => h.trim()).filter(Boolean);
+  return hops[hops.length - TRUSTED_PROXY_HOPS] || req.ip || 'unknown';
+}
+
+// Fixed-window counter in `rateLimits/{key}` (server only, see firestore.rules); a batch
+// costs one unit per text. Resolves to 0 when allowed, otherwise to the seconds until the
+// window resets.
+async function consumeRateLimit(key, limit, cost = 1) {
+  const ref = admin.firestore().doc(`rateLimits/${key.replace(/[^\w.-]/g, '_')}`);
+  return admin.firestore().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const now = Date.now();
+    const data = snap.exists ? snap.data() : null;
+    if (!data || now - data.windowStart >= RATE_WINDOW_MS) {
+      tx.set(ref, { windowStart: now, count: cost, expiresAt: new Date(now + 2 * RATE_WINDOW_MS) });
+      return 0;
+    }
+    if (data.count + cost > limit) {
+      return Math.max(1, Math.ceil((data.windowStart + RATE_WINDOW_MS - now) / 1000));
+    }
+    tx.update(ref, { count: data.count + cost });
+    return 0;
+  });
+}
+
+// Accepts `?text=&target=` (GET), `{ text, target, source? }` or the batch form
+// `{ texts: [...], target, source? }` (POST JSON). Single requests answer
+// `{ translatedText }`, batches `{ translations: [...] }` in request order.
+async function handleTranslateRequest(req, res) {
+  const user = await verifyRequestUser(req);
+  if (!user) {
+    sendError(res, 401, 'unauthenticated', 'valid Firebase ID token required');
+    return;
+  }
+
+  const params = req.method === 'GET' ? req.query : (req.body || {});
+  const isBatch = Array.isArray(params.texts);
+  const textParam = params.text || params.q;
+  const texts = isBatch ? params.texts : [Array.isArray(textParam) ? textParam[0] : textParam];
+  if (!texts.length || texts.some((t) => !t || typeof t !== 'string')) {
+    sendError(res, 400, 'invalid-argument', isBatch ? 'texts must be non-empty strings' : 'text required');
+    return;
+  }
+  if (texts.length > MAX_BATCH_ITEMS) {
+    sendError(res, 413, 'text-too-long', `at most ${MAX_BATCH_ITEMS} texts per request`, { maxItems: MAX_BATCH_ITEMS });
+    return;
+  }
+  if (texts.some((t) => t.length > MAX_PROXY_TEXT_LENGTH) || texts.reduce((n, t) => n + t.length, 0) > MAX_BATCH_CHARS) {
+    sendError(res, 413, 'text-too-long', `text exceeds ${MAX_PROXY_TEXT_LENGTH} characters`, { maxLength: MAX_PROXY_TEXT_LENGTH });
+    return;
+  }
+  const target = params.target || 'en';
+  const source = params.source || undefined;
+  if (!isChatLang(target) || (source !== undefined && !isChatLang(source))) {
+    sendError(res, 400, 'invalid-argument', `target and source must be one of ${CHAT_LANG_CODES.join(', ')}`);
     return;
   }
-  const target = (req.method === 'GET' ? req.query.target : req.body.target) || 'en';
+
+  if (!LOCAL_MODE) {
+    try {
+      const [userWait, ipWait] = await Promise.all([
+        consumeRateLimit(`user_${user.uid}`, USER_LIMIT_PER_WINDOW, texts.length),
+        consumeRateLimit(`ip_${requestIp(req)}`, IP_LIMIT_PER_WINDOW, texts.length),
+      ]);
+      const wait = Math.max(userWait, ipWait);
+      if (wait) {
+        sendError(res, 429, 'rate-limited', 'too many translation requests', { retryAfterSeconds: wait });
+        return;
+      }
+    } catch (e) {
+      logger.error(`translate rate limit check failed, ${RATE_LIMIT_FAIL_OPEN ? 'allowing' : 'refusing'} request`, e);
+      if (!RATE_LIMIT_FAIL_OPEN) {
+        // `rate-limited` makes the client pause this endpoint and fail over to the others
+        sendError(res, 503, 'rate-limited', 'rate limit check unavailable', { retryAfterSeconds: RATE_LIMIT_UNAVAILABLE_RETRY_SECONDS });
+        return;
+      }
+    }
+  }
 
   try {
-    const url = `${GAS_BASE_URL}?text=${encodeURIComponent(text)}&target=${encodeURIComponent(target)}`;
-    const r = await fetch(url);
-    const json = await r.json();
-    res.json(json);
+    const { results, error } = await translateTexts(texts, target, source);
+    if (results.some((r) => r === null)) {
+      if (error === 'quota-exceeded') {
+        sendError(res, 503, 'quota-exceeded', 'translation backend quota exhausted');
+      } else {
+        sendError(res, 502, 'upstream-failed', 'translation failed');
+      }
+      return;
+    }
+    res.json(isBatch ? { translations: results } : { translatedText: results[0] });
   } catch (err) {
     logger.error('translate proxy error', err);
-    res.status(500).json({ error: 'translation failed' });
+    sendError(res, 502, 'upstream-failed', 'translation failed');
   }
-});
+}
+
+// v2 onRequest provides built-in CORS support. The same handler also runs on Cloud Run via
+// functions/Dockerfile (functions-framework --target translate).
+export const translate = onRequest({ cors: true, timeoutSeconds: 300 }, handleTranslateRequest);
+
+// Former second proxy; kept as an alias so clients with the old URL configured keep working
+export const translate2 = onRequest({ cors: true, timeoutSeconds: 300 }, handleTranslateRequest);
 
 // ================= Admin callable =================
 export const adminDeleteRoom = onCall(async (request) => {
@@ -66,8 +496,6 @@ export const adminDeleteRoom = onCall(async (request) => {
   }
 });
 
-// ===== Additional translation proxy (translate2) =====
-
 // Scheduled function to auto-delete inactive rooms (v2 syntax)
 export const autoDeleteRooms = onSchedule({ region: 'asia-northeast1', timeoutSeconds: 540, schedule: 'every 5 minutes' }, async (event) => {
   logger.log('autoDeleteRooms function started.');
@@ -128,25 +556,242 @@ export const autoDeleteRooms = onSchedule({ region: 'asia-northeast1', timeoutSe
   return null;
 });
 
-// To set a distinct GAS endpoint, use environment variables e.g. GAS_BASE_URL_2
-const GAS_BASE_URL_2 = process.env.GAS_BASE_URL_2 ?? GAS_BASE_URL;
+// ================= Server-side translation on message creation =================
+// Translates every new message into the languages active in its room (`rooms/{id}.activeLangs`,
+// refreshed by ChatRoom on entry) and writes all of them in one update, so readers no longer
+// race each other writing `translations.<lang>`. Clients only fill in languages still missing
+// after a grace period (see SERVER_TRANSLATION_GRACE_MS in ChatRoom.tsx).
+const ACTIVE_LANG_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const MAX_SERVER_TARGETS = 8;
+const MAX_SERVER_TEXT_LENGTH = 5000;
 
-export const translate2 = onRequest({ cors: true, timeoutSeconds: 300 }, async (req, res) => {
-  const textParam = req.method === 'GET' ? (req.query.text || req.query.q) : (req.body.text || req.body.q);
-  const text = Array.isArray(textParam) ? textParam[0] : textParam;
-  if (!text) {
-    res.status(400).json({ error: 'text required' });
-    return;
+function activeRoomLangs(room) {
+  const cutoff = Date.now() - ACTIVE_LANG_WINDOW_MS;
+  return Object.entries(room.activeLangs || {})
+    .filter(([lang]) => CHAT_LANG_CODES.includes(lang))
+    .filter(([, at]) => at && typeof at.toMillis === 'function' && at.toMillis() >= cutoff)
+    .sort(([, a], [, b]) => b.toMillis() - a.toMillis())
+    .map(([lang]) => lang)
+    .slice(0, MAX_SERVER_TARGETS);
+}
+
+// --- protected spans and glossary (keep in sync with src/protectedSpans.ts and src/glossary.ts) ---
+const PLACEHOLDER_SRC = '⟦\\s*([0-9０-９]+)\\s*⟧';
+const PROTECTED_RE = new RegExp([
+  PLACEHOLDER_SRC,
+  '```[\\s\\S]*?```',
+  '`[^`\\n]+`',
+  'https?:\\/\\/[^\\s]+|www\\.[^\\s]+',
+  '[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+',
+  '@[^\\s@]+',
+  '(?<![^\\n])[ \\t]*(?:>|[-*+•]|\\d+[.)])[ \\t]+',
+  '[0-9#*]\\uFE0F?\\u20E3',
+  '(?:\\p{Extended_Pictographic}|\\p{Regional_Indicator})(?:\\uFE0F|\\p{Emoji_Modifier}|\\p{Regional_Indicator}|\\u200D\\p{Extended_Pictographic})*',
+  '\\*+|~~',
+  '(?<![\\p{L}\\p{N}_])_(?=[^\\s_])|(?<=[^\\s_])_(?![\\p{L}\\p{N}_])',
+  '(?<![\\p{L}\\p{N}_])\\d+(?:[.,:]\\d+)*(?![\\p{L}_])',
+].join('|'), 'gu');
+
+function maskText(text, glossary) {
+  const tokens = [];
+  const push = (value) => {
+    tokens.push(value);
+    return `⟦${tokens.length - 1}⟧`;
+  };
+  let masked = text.replace(PROTECTED_RE, push);
+  if (glossary.length) {
+    const re = new RegExp(['⟦[^⟧]*⟧', ...glossary.map((e) => `(${glossaryTermPattern(e.term)})`)].join('|'), 'giu');
+    masked = masked.replace(re, (m, ...groups) => {
+      const idx = groups.slice(0, glossary.length).findIndex((g) => g !== undefined);
+      return idx === -1 ? m : push(glossary[idx].translation);
+    });
+  }
+  return { text: masked, tokens };
+}
+
+function unmaskText(translated, tokens) {
+  if (!tokens.length) return translated;
+  const used = new Set();
+  const restored = translated.replace(new RegExp(PLACEHOLDER_SRC, 'g'), (m, n) => {
+    const idx = Number(n.replace(/[０-９]/g, (d) => String.fromCharCode(d.charCodeAt(0) - 0xfee0)));
+    if (idx >= tokens.length) return m;
+    used.add(idx);
+    return tokens[idx];
+  });
+  const missing = tokens.filter((_, i) => !used.has(i));
+  return missing.length ? `${restored} ${missing.join(' ')}` : restored;
+}
+
+function hasPlaceholder(text) {
+  return new RegExp(PLACEHOLDER_SRC).test(text);
+}
+
+function hasTranslatableContent(masked) {
+  return masked.replace(new RegExp(PLACEHOLDER_SRC, 'g'), '').replace(/[\s\p{P}\p{S}]/gu, '') !== '';
+}
+
+function glossaryTermPattern(term) {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = /[A-Za-z0-9]/.test(term[0]) ? '(?<![A-Za-z0-9_])' : '';
+  const end = /[A-Za-z0-9]/.test(term[term.length - 1]) ? '(?![A-Za-z0-9_])' : '';
+  return `${start}${escaped}${end}`;
+}
+
+function parseGlossary(raw) {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((e) => e && typeof e.term === 'string' && e.term.trim() &&
+    typeof e.translation === 'string' && typeof e.targetLang === 'string' && e.targetLang)
+    .map((e) => ({ sourceLang: e.sourceLang || '*', targetLang: e.targetLang, term: e.term.trim(), translation: e.translation }));
+}
+
+// Room entries override global ones for the same term; longest terms first
+function resolveGlossary(globalEntries, roomEntries, target, source) {
+  const applies = (e) => e.targetLang === target && (e.sourceLang === '*' || !source || e.sourceLang === source);
+  const room = roomEntries.filter(applies);
+  const global = globalEntries.filter(applies)
+    .filter((g) => !room.some((r) => r.term.toLowerCase() === g.term.toLowerCase()));
+  return [...room, ...global].sort((a, b) => b.term.length - a.term.length);
+}
+
+// Same pipeline as translateText in src/translation.ts: memory → mask → per-line → unmask.
+// The translatable lines go to the proxy's upstreams as one batch.
+async function translateForRoom(text, target, source, glossary) {
+  const terms = glossary.filter((e) => new RegExp(glossaryTermPattern(e.term), 'iu').test(text));
+  if (!terms.length) {
+    const remembered = await readTranslationMemory(text, target, source);
+    if (remembered !== null) return remembered;
   }
-  const target = (req.method === 'GET' ? req.query.target : req.body.target) || 'en';
+  const masked = maskText(text, terms);
+  if (!hasTranslatableContent(masked.text)) return unmaskText(masked.text, masked.tokens);
+
+  const lines = masked.text.split('\n');
+  const needsTranslation = (line) => line.trim() !== '' && hasTranslatableContent(line);
+  const { results } = await translateTexts(lines.filter(needsTranslation), target, source);
+  if (results.some((r) => r === null)) return null;
+  let next = 0;
+  const translatedLines = lines.map((line) => (needsTranslation(line) ? results[next++] : line));
+  const result = unmaskText(translatedLines.join('\n'), masked.tokens);
+  // the shared memory must not contain glossary-specific renderings
+  if (!terms.length) await writeTranslationMemory(text, target, source, result);
+  return result;
+}
 
+// Fill in the room's active languages that `msg` has no translation for yet
+async function translateMessageDoc(ref, msg, roomId, msgId) {
+  const text = typeof msg.text === 'string' ? msg.text.trim() : '';
+  if (!text || text.length > MAX_SERVER_TEXT_LENGTH) return;
+
+  const [roomSnap, cfgSnap] = await Promise.all([
+    admin.firestore().doc(`rooms/${roomId}`).get(),
+    admin.firestore().doc('admin/config').get(),
+  ]);
+  const room = roomSnap.exists ? roomSnap.data() : {};
+  const existing = msg.translations || {};
+  // the message's own language is left out even for mixed messages (`langs`): clients fill it in
+  // run by run, keeping the parts already in that language
+  const targets = activeRoomLangs(room).filter((l) => l !== msg.originalLang && !existing[l]);
+  if (!targets.length) return;
+
+  const globalGlossary = parseGlossary(cfgSnap.exists ? cfgSnap.data().glossary : null);
+  const roomGlossary = parseGlossary(room.glossary);
+  const results = await Promise.all(targets.map(async (target) => {
+    try {
+      const glossary = resolveGlossary(globalGlossary, roomGlossary, target, msg.originalLang);
+      return [target, await translateForRoom(text, target, msg.originalLang, glossary)];
+    } catch (e) {
+      logger.warn('server translation failed', msgId, target, e);
+      return [target, null];
+    }
+  }));
+
+  const update = {};
+  results.forEach(([target, translated]) => {
+    if (translated && translated !== text) update[`translations.${target}`] = translated;
+  });
+  if (!Object.keys(update).length) return;
   try {
-    const url = `${GAS_BASE_URL_2}?text=${encodeURIComponent(text)}&target=${encodeURIComponent(target)}`;
-    const r = await fetch(url);
-    const json = await r.json();
-    res.json(json);
-  } catch (err) {
-    logger.error('translate2 proxy error', err);
-    res.status(500).json({ error: 'translation failed' });
+    // the author may have edited the text or corrected its language while we were translating
+    await admin.firestore().runTransaction(async (tx) => {
+      const current = (await tx.get(ref)).data();
+      if (!current || current.text !== msg.text || current.originalLang !== msg.originalLang) return;
+      tx.update(ref, update);
+    });
+  } catch (e) {
+    logger.warn('could not store server translations', msgId, e.message);
+  }
+}
+
+export const translateOnCreate = onDocumentCreated(
+  { document: 'rooms/{roomId}/messages/{msgId}', timeoutSeconds: 120 },
+  async (event) => {
+    const snap = event.data;
+    if (!snap) return;
+    await translateMessageDoc(snap.ref, snap.data(), event.params.roomId, event.params.msgId);
+  }
+);
+
+// The author corrected `originalLang` or edited the text, which also cleared `translations`:
+// translate again
+export const translateOnLangChange = onDocumentUpdated(
+  { document: 'rooms/{roomId}/messages/{msgId}', timeoutSeconds: 120 },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after) return;
+    if (before.originalLang === after.originalLang && before.text === after.text) return;
+    await translateMessageDoc(event.data.after.ref, after, event.params.roomId, event.params.msgId);
+  }
+);
+
+/* ---------- Threads ---------- */
+
+// `replyCount` / `lastReplyAt` on the root message of a thread. Kept here because clients may
+// not write to other people's messages.
+async function updateThreadRoot(roomId, threadId, delta, replyAt) {
+  const rootRef = admin.firestore().doc(`rooms/${roomId}/messages/${threadId}`);
+  try {
+    await rootRef.update({
+      replyCount: admin.firestore.FieldValue.increment(delta),
+      ...(replyAt ? { lastReplyAt: replyAt } : {}),
+    });
+  } catch (e) {
+    // root deleted
+    logger.warn('could not update thread root', roomId, threadId, e.message);
+  }
+}
+
+export const threadReplyCreated = onDocumentCreated('rooms/{roomId}/messages/{msgId}', async (event) => {
+  const msg = event.data?.data();
+  if (!msg || typeof msg.threadId !== 'string') return;
+  await updateThreadRoot(event.params.roomId, msg.threadId, 1, msg.createdAt ?? admin.firestore.FieldValue.serverTimestamp());
+});
+
+// Replies left behind by a deleted root: thread-only ones are deleted with their edit history,
+// ones also sent to the room stay there as ordinary messages
+async function removeThreadReplies(roomId, threadId) {
+  const replies = await admin.firestore().collection(`rooms/${roomId}/messages`).where('threadId', '==', threadId).get();
+  await Promise.all(replies.docs.map(async (reply) => {
+    try {
+      if (reply.data().showInRoom) {
+        await reply.ref.update({
+          threadId: admin.firestore.FieldValue.delete(),
+          showInRoom: admin.firestore.FieldValue.delete(),
+        });
+      } else {
+        await admin.firestore().recursiveDelete(reply.ref);
+      }
+    } catch (e) {
+      logger.warn('could not remove thread reply', roomId, reply.id, e.message);
+    }
+  }));
+}
+
+export const threadReplyDeleted = onDocumentDeleted('rooms/{roomId}/messages/{msgId}', async (event) => {
+  const msg = event.data?.data();
+  if (!msg) return;
+  if (typeof msg.threadId === 'string') {
+    await updateThreadRoot(event.params.roomId, msg.threadId, -1, null);
+  } else if (msg.replyCount > 0) {
+    await removeThreadReplies(event.params.roomId, event.params.msgId);
   }
 });
@@ -0,0 +1,23 @@
+// Languages offered to readers: the ChatRoom header, the source-language chip and the
+// "languages I understand" profile setting. Codes are canonical (see langDetect.canonicalLang).
+// Only these codes are accepted as `rooms/{id}.activeLangs` keys and message `translations`
+// keys: firestore.rules and CHAT_LANG_CODES in functions/index.js list them too.
+
+export const CHAT_LANGUAGES: [string, string][] = [
+  ["en", "English"],
+  ["ja", "日本語"],
+  ["zh-CN", "简体中文"],
+  ["zh-TW", "繁體中文"],
+  ["ko", "한국어"],
+  ["es", "Español"],
+  ["fr", "Français"],
+];
+
+export function langLabel(code: string | undefined): string {
+  return CHAT_LANGUAGES.find(([c]) => c === code)?.[1] ?? (code || "?");
+}
+
+// The offered languages plus `extra` when it is not one of them (e.g. a detected "de")
+export function languageChoices(extra?: string): [string, string][] {
+  return extra && !CHAT_LANGUAGES.some(([c]) => c === extra) ? [...CHAT_LANGUAGES, [extra, extra]] : CHAT_LANGUAGES;
+}
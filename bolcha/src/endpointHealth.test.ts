@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// translationProviders.ts pulls in the Firebase app; the breaker only needs its error helpers
+vi.mock("./firebase", () => ({ auth: {} }));
+
+import {
+  acquireEndpoint,
+  getEndpointHealth,
+  isEndpointAvailable,
+  pruneEndpointHealth,
+  recordCancelled,
+  recordFailure,
+  recordSuccess,
+} from "./endpointHealth";
+import { providerError } from "./translationProviders";
+
+const ID = "gas:https://example.com/exec";
+const COOLDOWN_MS = 30_000; // OPEN_COOLDOWN_MS in endpointHealth.ts
+
+const stateOf = (id = ID) => getEndpointHealth().find((h) => h.id === id)?.state;
+
+function fail(times: number, error?: unknown) {
+  for (let i = 0; i < times; i++) {
+    acquireEndpoint(ID);
+    recordFailure(ID, 100, error);
+  }
+}
+
+function openCircuit() {
+  fail(3);
+  expect(stateOf()).toBe("open");
+}
+
+describe("endpoint circuit breaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    pruneEndpointHealth([]);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("starts closed and stays closed below the failure threshold", () => {
+    expect(isEndpointAvailable(ID)).toBe(true);
+    fail(2);
+    recordSuccess(ID, 50);
+    fail(2);
+    expect(stateOf()).toBe("closed");
+    expect(acquireEndpoint(ID)).toBe(true);
+  });
+
+  it("opens after three consecutive failures and refuses requests", () => {
+    openCircuit();
+    expect(isEndpointAvailable(ID)).toBe(false);
+    expect(acquireEndpoint(ID)).toBe(false);
+  });
+
+  it.each([
+    ["quota", providerError("quota used up", "quota")],
+    ["rate-limit", providerError("HTTP 429", "rate-limit")],
+  ])("opens at once on a %s error", (_, error) => {
+    fail(1, error);
+    expect(stateOf()).toBe("open");
+  });
+
+  it("counts quota errors", () => {
+    fail(1, providerError("quota used up", "quota"));
+    expect(getEndpointHealth()[0]).toMatchObject({ quotaEvents: 1, lastError: "quota used up" });
+  });
+
+  it("opens once half of the recent requests failed", () => {
+    for (let i = 0; i < 5; i++) {
+      recordSuccess(ID, 50);
+      fail(1);
+    }
+    expect(stateOf()).toBe("open");
+  });
+
+  it("hands out a single half-open trial after the cooldown", () => {
+    openCircuit();
+    vi.advanceTimersByTime(COOLDOWN_MS - 1);
+    expect(acquireEndpoint(ID)).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(isEndpointAvailable(ID)).toBe(true);
+    expect(acquireEndpoint(ID)).toBe(true);
+    expect(stateOf()).toBe("half-open");
+    expect(isEndpointAvailable(ID)).toBe(false);
+    expect(acquireEndpoint(ID)).toBe(false);
+  });
+
+  it("closes with a clean window when the trial succeeds", () => {
+    openCircuit();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    acquireEndpoint(ID);
+    recordSuccess(ID, 80);
+    expect(getEndpointHealth()[0]).toMatchObject({ state: "closed", successes: 1, failures: 0 });
+    // old failures do not count towards re-opening
+    fail(2);
+    expect(stateOf()).toBe("closed");
+  });
+
+  it("re-opens for another cooldown when the trial fails", () => {
+    openCircuit();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    acquireEndpoint(ID);
+    recordFailure(ID, 100);
+    expect(stateOf()).toBe("open");
+    vi.advanceTimersByTime(COOLDOWN_MS - 1);
+    expect(acquireEndpoint(ID)).toBe(false);
+  });
+
+  it("frees the trial slot when the trial is cancelled", () => {
+    openCircuit();
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    acquireEndpoint(ID);
+    recordCancelled(ID);
+    expect(stateOf()).toBe("half-open");
+    expect(acquireEndpoint(ID)).toBe(true);
+  });
+
+  it("keeps endpoints apart and drops the ones no longer configured", () => {
+    const other = "proxy:https://example.com/translate";
+    openCircuit();
+    expect(isEndpointAvailable(other)).toBe(true);
+    recordSuccess(other, 10);
+    pruneEndpointHealth([other]);
+    expect(getEndpointHealth().map((h) => h.id)).toEqual([other]);
+    expect(isEndpointAvailable(ID)).toBe(true);
+  });
+});
@@ -0,0 +1,287 @@
+// Per-endpoint health tracking and circuit breaker for translation providers.
+//   closed    → requests flow; consecutive failures or a high error rate open the circuit
+//   open      → endpoint is skipped until OPEN_COOLDOWN_MS has passed
+//   half-open → exactly one trial request (or health probe) decides: success closes, failure re-opens
+// translation.ts reports every call here; the admin page reads the snapshot via
+// `subscribeEndpointHealth`. Keyed by `TranslationProvider.id`.
+
+import type { TranslationProvider } from "./translationProviders";
+import { providerErrorKind } from "./translationProviders";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface EndpointHealth {
+  id: string;
+  state: CircuitState;
+  successes: number;          // within the sliding window
+  failures: number;           // within the sliding window
+  errorRate: number;          // 0..1 over the sliding window
+  medianLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+  openedAt: number | null;
+  lastProbeAt: number | null;
+  quotaEvents: number;        // since page load
+  lastQuotaAt: number | null;
+}
+
+// One finished request, reported to outcome listeners (endpointStats.ts aggregates these)
+export interface EndpointOutcome {
+  id: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+  quota?: boolean;
+}
+
+const WINDOW_SIZE = 20;                  // recent outcomes used for error rate / latency
+const CONSECUTIVE_FAILURES_TO_OPEN = 3;
+const ERROR_RATE_TO_OPEN = 0.5;          // only once MIN_SAMPLES outcomes are known
+const MIN_SAMPLES = 10;
+const OPEN_COOLDOWN_MS = 30_000;
+const PROBE_INTERVAL_MS = 60_000;
+const IDLE_PROBE_AFTER_MS = 5 * 60_000;  // idle closed endpoints, only while someone watches the health
+const PROBE_TIMEOUT_MS = 10_000;
+
+interface Outcome {
+  ok: boolean;
+  latency: number;
+}
+
+interface State {
+  state: CircuitState;
+  outcomes: Outcome[];
+  consecutiveFailures: number;
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+  lastUsedAt: number;
+  openedAt: number | null;
+  lastProbeAt: number | null;
+  quotaEvents: number;
+  lastQuotaAt: number | null;
+}
+
+const states = new Map<string, State>();
+const listeners = new Set<(health: EndpointHealth[]) => void>();
+const outcomeListeners = new Set<(outcome: EndpointOutcome) => void>();
+
+function stateOf(id: string): State {
+  let s = states.get(id);
+  if (!s) {
+    s = {
+      state: "closed",
+      outcomes: [],
+      consecutiveFailures: 0,
+      trialInFlight: false,
+      lastError: null,
+      lastErrorAt: null,
+      lastSuccessAt: null,
+      lastUsedAt: 0,
+      openedAt: null,
+      lastProbeAt: null,
+      quotaEvents: 0,
+      lastQuotaAt: null,
+    };
+    states.set(id, s);
+  }
+  return s;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function snapshot(id: string, s: State): EndpointHealth {
+  const successes = s.outcomes.filter((o) => o.ok).length;
+  const failures = s.outcomes.length - successes;
+  return {
+    id,
+    state: s.state,
+    successes,
+    failures,
+    errorRate: s.outcomes.length ? failures / s.outcomes.length : 0,
+    medianLatencyMs: median(s.outcomes.filter((o) => o.ok).map((o) => o.latency)),
+    lastError: s.lastError,
+    lastErrorAt: s.lastErrorAt,
+    lastSuccessAt: s.lastSuccessAt,
+    openedAt: s.openedAt,
+    lastProbeAt: s.lastProbeAt,
+    quotaEvents: s.quotaEvents,
+    lastQuotaAt: s.lastQuotaAt,
+  };
+}
+
+export function getEndpointHealth(): EndpointHealth[] {
+  return Array.from(states.entries()).map(([id, s]) => snapshot(id, s));
+}
+
+export function subscribeEndpointHealth(listener: (health: EndpointHealth[]) => void): () => void {
+  listeners.add(listener);
+  listener(getEndpointHealth());
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function onEndpointOutcome(listener: (outcome: EndpointOutcome) => void): () => void {
+  outcomeListeners.add(listener);
+  return () => {
+    outcomeListeners.delete(listener);
+  };
+}
+
+function notify() {
+  if (!listeners.size) return;
+  const health = getEndpointHealth();
+  listeners.forEach((l) => l(health));
+}
+
+function push(s: State, outcome: Outcome) {
+  s.outcomes.push(outcome);
+  if (s.outcomes.length > WINDOW_SIZE) s.outcomes.shift();
+}
+
+function open(s: State) {
+  s.state = "open";
+  s.openedAt = Date.now();
+}
+
+// Whether a request may be sent now. Moving open → half-open hands out the single trial slot,
+// so callers must report the outcome with recordSuccess / recordFailure / recordCancelled.
+export function acquireEndpoint(id: string): boolean {
+  const s = stateOf(id);
+  if (s.state === "open" && s.openedAt !== null && Date.now() - s.openedAt >= OPEN_COOLDOWN_MS) {
+    s.state = "half-open";
+    notify();
+  }
+  if (s.state === "open") return false;
+  if (s.state === "half-open") {
+    if (s.trialInFlight) return false;
+    s.trialInFlight = true;
+  }
+  s.lastUsedAt = Date.now();
+  return true;
+}
+
+export function isEndpointAvailable(id: string): boolean {
+  const s = states.get(id);
+  if (!s || s.state === "closed") return true;
+  if (s.state === "half-open") return !s.trialInFlight;
+  return s.openedAt !== null && Date.now() - s.openedAt >= OPEN_COOLDOWN_MS;
+}
+
+export function recordSuccess(id: string, latencyMs: number) {
+  const s = stateOf(id);
+  push(s, { ok: true, latency: latencyMs });
+  s.consecutiveFailures = 0;
+  s.trialInFlight = false;
+  s.lastSuccessAt = Date.now();
+  if (s.state !== "closed") {
+    s.state = "closed";
+    s.openedAt = null;
+    // start the closed period with a clean window so old failures do not re-open it at once
+    s.outcomes = [{ ok: true, latency: latencyMs }];
+  }
+  outcomeListeners.forEach((l) => l({ id, ok: true, latencyMs }));
+  notify();
+}
+
+export function recordFailure(id: string, latencyMs: number, error?: unknown) {
+  const s = stateOf(id);
+  push(s, { ok: false, latency: latencyMs });
+  s.consecutiveFailures++;
+  s.trialInFlight = false;
+  s.lastError = error instanceof Error ? error.message : error ? String(error) : "no translation returned";
+  s.lastErrorAt = Date.now();
+  const kind = providerErrorKind(error);
+  const quota = kind === "quota";
+  if (quota) {
+    s.quotaEvents++;
+    s.lastQuotaAt = s.lastErrorAt;
+  }
+
+  if (s.state === "half-open") {
+    open(s);
+  } else if (s.state === "closed") {
+    const failures = s.outcomes.filter((o) => !o.ok).length;
+    const rateExceeded = s.outcomes.length >= MIN_SAMPLES && failures / s.outcomes.length >= ERROR_RATE_TO_OPEN;
+    // an exhausted quota or rate limit will not recover within seconds → open at once
+    if (quota || kind === "rate-limit" || s.consecutiveFailures >= CONSECUTIVE_FAILURES_TO_OPEN || rateExceeded) {
+      open(s);
+      console.warn("[translation] circuit opened for", id, s.lastError);
+    }
+  }
+  outcomeListeners.forEach((l) => l({ id, ok: false, latencyMs, error: s.lastError ?? undefined, quota }));
+  notify();
+}
+
+// Aborted by the caller: says nothing about the endpoint, just frees the trial slot
+export function recordCancelled(id: string) {
+  const s = states.get(id);
+  if (s) s.trialInFlight = false;
+}
+
+// Drop state of endpoints that are no longer configured
+export function pruneEndpointHealth(activeIds: string[]) {
+  Array.from(states.keys()).forEach((id) => {
+    if (!activeIds.includes(id)) states.delete(id);
+  });
+  notify();
+}
+
+/* ---------- Health probes ---------- */
+
+// One small translation against a single endpoint; the outcome feeds the breaker like any request
+export async function probeEndpoint(provider: TranslationProvider): Promise<boolean> {
+  const s = stateOf(provider.id);
+  s.lastProbeAt = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  const started = performance.now();
+  try {
+    const res = await provider.translate("Hello", "ja", { source: "en", signal: controller.signal });
+    if (res) {
+      recordSuccess(provider.id, performance.now() - started);
+      return true;
+    }
+    recordFailure(provider.id, performance.now() - started);
+  } catch (e) {
+    recordFailure(provider.id, performance.now() - started, controller.signal.aborted ? "probe timed out" : e);
+  } finally {
+    clearTimeout(timer);
+  }
+  return false;
+}
+
+// Probe open circuits once their cooldown has passed (deliberate recovery). Closed endpoints
+// that have been idle for a while are probed only while a health subscriber (the admin page)
+// is listening, so ordinary clients do not spend translation quota on probes.
+// Skipped while the tab is hidden.
+async function runHealthProbes(providers: TranslationProvider[]) {
+  if (typeof document !== "undefined" && document.hidden) return;
+  const now = Date.now();
+  for (const p of providers) {
+    const s = stateOf(p.id);
+    const due = s.state === "closed"
+      ? listeners.size > 0 && now - Math.max(s.lastUsedAt, s.lastProbeAt ?? 0) >= IDLE_PROBE_AFTER_MS
+      : isEndpointAvailable(p.id);
+    if (!due || !acquireEndpoint(p.id)) continue;
+    await probeEndpoint(p);
+  }
+}
+
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+
+// `getProviders` is read on every tick so endpoint list changes are picked up
+export function startHealthProbes(getProviders: () => TranslationProvider[]) {
+  if (probeTimer) return;
+  probeTimer = setInterval(() => {
+    runHealthProbes(getProviders());
+  }, PROBE_INTERVAL_MS);
+}
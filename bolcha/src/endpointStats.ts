@@ -0,0 +1,161 @@
+// Endpoint statistics shared across clients (`endpointStats/{day}_{endpoint}`)
+// Every client buffers the outcomes reported by endpointHealth.ts and flushes them as
+// Firestore increments once a minute; the admin dashboard sums the daily documents.
+// Latency is kept as a histogram because medians cannot be merged with increments.
+
+import { db, auth } from "./firebase";
+import { collection, doc, getDocs, query, where, setDoc, increment, serverTimestamp } from "firebase/firestore";
+import { onEndpointOutcome } from "./endpointHealth";
+import type { EndpointOutcome } from "./endpointHealth";
+
+const FLUSH_INTERVAL_MS = 60_000;
+
+// Upper bounds (ms) of the latency histogram buckets; the last bucket is open-ended
+export const LATENCY_BUCKETS = [250, 500, 1000, 2000, 4000, 8000];
+const OVERFLOW_BUCKET = "inf";
+
+export interface EndpointStatsSummary {
+  endpointId: string;
+  successes: number;
+  failures: number;
+  quotaErrors: number;
+  latency: Record<string, number>; // bucket upper bound (or "inf") → count
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  lastQuotaAt: Date | null;
+}
+
+interface PendingStats {
+  successes: number;
+  failures: number;
+  quotaErrors: number;
+  latency: Record<string, number>;
+  lastError?: string;
+  quota?: boolean;
+}
+
+const pending = new Map<string, PendingStats>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function dayKey(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Endpoint ids contain URLs; "/" is not allowed in document ids
+function statsDocId(day: string, endpointId: string): string {
+  return `${day}_${encodeURIComponent(endpointId)}`;
+}
+
+export function latencyBucket(ms: number): string {
+  const bound = LATENCY_BUCKETS.find((b) => ms <= b);
+  return bound === undefined ? OVERFLOW_BUCKET : String(bound);
+}
+
+// Approximate median: upper bound of the bucket holding the middle sample
+export function histogramMedian(latency: Record<string, number>): number | null {
+  const keys = [...LATENCY_BUCKETS.map(String), OVERFLOW_BUCKET];
+  const total = keys.reduce((sum, k) => sum + (latency[k] ?? 0), 0);
+  if (!total) return null;
+  let seen = 0;
+  for (const k of keys) {
+    seen += latency[k] ?? 0;
+    if (seen >= total / 2) return k === OVERFLOW_BUCKET ? Infinity : Number(k);
+  }
+  return null;
+}
+
+function record(outcome: EndpointOutcome) {
+  const p = pending.get(outcome.id) ?? { successes: 0, failures: 0, quotaErrors: 0, latency: {} };
+  if (outcome.ok) {
+    p.successes++;
+    const bucket = latencyBucket(outcome.latencyMs);
+    p.latency[bucket] = (p.latency[bucket] ?? 0) + 1;
+  } else {
+    p.failures++;
+    p.lastError = outcome.error;
+    if (outcome.quota) {
+      p.quotaErrors++;
+      p.quota = true;
+    }
+  }
+  pending.set(outcome.id, p);
+  if (!flushTimer) flushTimer = setTimeout(flushEndpointStats, FLUSH_INTERVAL_MS);
+}
+
+export async function flushEndpointStats() {
+  flushTimer = null;
+  if (!auth.currentUser || !pending.size) return; // rules require sign-in; keep buffering
+  const day = dayKey();
+  const batch = Array.from(pending.entries());
+  pending.clear();
+  await Promise.all(batch.map(async ([endpointId, p]) => {
+    const data: Record<string, unknown> = {
+      endpointId,
+      day,
+      successes: increment(p.successes),
+      failures: increment(p.failures),
+      quotaErrors: increment(p.quotaErrors),
+      latency: Object.fromEntries(Object.entries(p.latency).map(([k, n]) => [k, increment(n)])),
+      updatedAt: serverTimestamp(),
+    };
+    if (p.lastError) {
+      data.lastError = p.lastError;
+      data.lastErrorAt = serverTimestamp();
+    }
+    if (p.quota) data.lastQuotaAt = serverTimestamp();
+    try {
+      await setDoc(doc(db, "endpointStats", statsDocId(day, endpointId)), data, { merge: true });
+    } catch {
+      /* statistics are best effort */
+    }
+  }));
+}
+
+// register once, also across hot reloads
+const globalFlags = globalThis as typeof globalThis & { __ENDPOINT_STATS_LISTENER__?: boolean };
+if (!globalFlags.__ENDPOINT_STATS_LISTENER__) {
+  globalFlags.__ENDPOINT_STATS_LISTENER__ = true;
+  onEndpointOutcome(record);
+  // do not lose the last minute when the tab is closed
+  if (typeof document !== "undefined") {
+    document.addEventListener("visibilitychange", () => {
+      if (document.hidden) flushEndpointStats();
+    });
+  }
+}
+
+// Sum of the daily documents of the last `days` days (today included), per endpoint
+export async function loadEndpointStats(days = 7): Promise<EndpointStatsSummary[]> {
+  const since = dayKey(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+  const snap = await getDocs(query(collection(db, "endpointStats"), where("day", ">=", since)));
+  const byEndpoint = new Map<string, EndpointStatsSummary>();
+  snap.docs.forEach((d) => {
+    const data = d.data();
+    if (typeof data.endpointId !== "string") return;
+    const s = byEndpoint.get(data.endpointId) ?? {
+      endpointId: data.endpointId,
+      successes: 0,
+      failures: 0,
+      quotaErrors: 0,
+      latency: {},
+      lastError: null,
+      lastErrorAt: null,
+      lastQuotaAt: null,
+    };
+    s.successes += data.successes ?? 0;
+    s.failures += data.failures ?? 0;
+    s.quotaErrors += data.quotaErrors ?? 0;
+    Object.entries((data.latency ?? {}) as Record<string, number>).forEach(([k, n]) => {
+      s.latency[k] = (s.latency[k] ?? 0) + n;
+    });
+    const errorAt: Date | null = data.lastErrorAt?.toDate?.() ?? null;
+    if (errorAt && (!s.lastErrorAt || errorAt > s.lastErrorAt)) {
+      s.lastErrorAt = errorAt;
+      s.lastError = data.lastError ?? null;
+    }
+    const quotaAt: Date | null = data.lastQuotaAt?.toDate?.() ?? null;
+    if (quotaAt && (!s.lastQuotaAt || quotaAt > s.lastQuotaAt)) s.lastQuotaAt = quotaAt;
+    byEndpoint.set(data.endpointId, s);
+  });
+  return Array.from(byEndpoint.values());
+}
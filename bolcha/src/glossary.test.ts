@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  enforceGlossary,
+  maskGlossaryTerms,
+  matchGlossary,
+  parseGlossary,
+  resolveGlossary,
+  setGlobalGlossary,
+  setRoomGlossary,
+} from "./glossary";
+import { maskProtectedSpans, unmaskProtectedSpans } from "./protectedSpans";
+import type { GlossaryEntry } from "./types";
+
+const entry = (term: string, translation: string, targetLang = "ja", sourceLang = "*"): GlossaryEntry =>
+  ({ sourceLang, targetLang, term, translation });
+
+// Same order as translation.ts: protected spans first, then glossary terms
+function mask(text: string, entries: GlossaryEntry[]) {
+  return maskGlossaryTerms(maskProtectedSpans(text), matchGlossary(text, entries));
+}
+
+describe("maskGlossaryTerms", () => {
+  const entries = [entry("Bolcha Pro", "ボルチャ・プロ"), entry("Bolcha", "ボルチャ")];
+
+  it("round-trips to the configured rendering", () => {
+    const masked = mask("Try Bolcha Pro and Bolcha today", entries);
+    expect(masked.text).toBe("Try ⟦0⟧ and ⟦1⟧ today");
+    expect(unmaskProtectedSpans(masked.text, masked.tokens)).toBe("Try ボルチャ・プロ and ボルチャ today");
+  });
+
+  it("numbers glossary placeholders after the protected spans", () => {
+    const masked = mask("@hana Bolcha at https://example.com", entries);
+    expect(masked.text).toBe("⟦0⟧ ⟦2⟧ at ⟦1⟧");
+    expect(unmaskProtectedSpans("⟦0⟧さん、⟦1⟧ の ⟦2⟧", masked.tokens)).toBe("@hanaさん、https://example.com の ボルチャ");
+  });
+
+  it("matches case-insensitively on word boundaries only", () => {
+    expect(mask("bolcha rocks", entries).tokens).toEqual(["ボルチャ"]);
+    expect(mask("Bolchas and MyBolcha", entries).tokens).toEqual([]);
+  });
+
+  it("never rewrites terms inside protected spans", () => {
+    const masked = mask("see https://bolcha.example/Bolcha", entries);
+    expect(masked.tokens).toEqual(["https://bolcha.example/Bolcha"]);
+  });
+
+  it("leaves the text alone without entries", () => {
+    const masked = maskProtectedSpans("Bolcha");
+    expect(maskGlossaryTerms(masked, [])).toBe(masked);
+  });
+});
+
+describe("enforceGlossary", () => {
+  it("replaces terms the translator produced itself", () => {
+    expect(enforceGlossary("Bolcha を使う", [entry("Bolcha", "ボルチャ")])).toBe("ボルチャ を使う");
+  });
+
+  it("skips renderings that contain the term", () => {
+    expect(enforceGlossary("Bolcha", [entry("Bolcha", "Bolcha (chat)")])).toBe("Bolcha");
+  });
+});
+
+describe("resolveGlossary", () => {
+  afterEach(() => {
+    setGlobalGlossary([]);
+    setRoomGlossary("room1", []);
+  });
+
+  it("lets room entries override global ones and sorts longest first", () => {
+    setGlobalGlossary([entry("Bolcha", "ぼるちゃ"), entry("Bolcha Pro", "ボルチャ・プロ"), entry("Bolcha", "Bolcha", "en")]);
+    setRoomGlossary("room1", [entry("bolcha", "ボルチャ")]);
+    expect(resolveGlossary("ja", "en", "room1").map((e) => e.translation)).toEqual(["ボルチャ・プロ", "ボルチャ"]);
+    expect(resolveGlossary("ja", "en").map((e) => e.translation)).toEqual(["ボルチャ・プロ", "ぼるちゃ"]);
+  });
+
+  it("filters by source language when it is known", () => {
+    setGlobalGlossary([entry("gift", "贈り物", "ja", "en"), entry("Gift", "毒", "ja", "de")]);
+    expect(resolveGlossary("ja", "en").map((e) => e.translation)).toEqual(["贈り物"]);
+    expect(resolveGlossary("ja").length).toBe(2);
+  });
+});
+
+describe("parseGlossary", () => {
+  it("drops malformed rows and defaults the source language", () => {
+    expect(parseGlossary([
+      { targetLang: "ja", term: " Bolcha ", translation: "ボルチャ" },
+      { targetLang: "ja", term: "", translation: "x" },
+      { term: "x", translation: "y" },
+      null,
+    ])).toEqual([entry("Bolcha", "ボルチャ")]);
+    expect(parseGlossary("nope")).toEqual([]);
+  });
+});
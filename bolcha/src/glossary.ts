@@ -0,0 +1,104 @@
+// Translation glossary: terms that must always be rendered a fixed way for a language pair.
+// Global entries live in `admin/config.glossary`; a room document may carry its own
+// `glossary` array whose entries override global ones for the same term and pair.
+// Enforcement happens in translation.ts: matched terms are masked before the endpoint call
+// (so the translator never sees them) and replaced by the configured rendering afterwards.
+
+import type { GlossaryEntry } from "./types";
+import type { MaskedText } from "./protectedSpans";
+import { placeholder } from "./protectedSpans";
+
+let globalGlossary: GlossaryEntry[] = [];
+const roomGlossaries = new Map<string, GlossaryEntry[]>();
+
+// Validate raw Firestore data; malformed rows are dropped
+export function parseGlossary(raw: unknown): GlossaryEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((r) => {
+    if (!r || typeof r !== "object") return [];
+    const { sourceLang, targetLang, term, translation } = r as Partial<GlossaryEntry>;
+    if (typeof term !== "string" || !term.trim()) return [];
+    if (typeof translation !== "string" || typeof targetLang !== "string" || !targetLang) return [];
+    return [{
+      sourceLang: typeof sourceLang === "string" && sourceLang ? sourceLang : "*",
+      targetLang,
+      term: term.trim(),
+      translation,
+    }];
+  });
+}
+
+export function setGlobalGlossary(entries: GlossaryEntry[]) {
+  globalGlossary = entries;
+}
+
+export function setRoomGlossary(roomId: string, entries: GlossaryEntry[]) {
+  if (entries.length) roomGlossaries.set(roomId, entries);
+  else roomGlossaries.delete(roomId);
+}
+
+function sameTerm(a: GlossaryEntry, b: GlossaryEntry): boolean {
+  return a.term.toLowerCase() === b.term.toLowerCase();
+}
+
+// Entries that apply to one translation. Unknown source language matches every entry.
+export function resolveGlossary(targetLang: string, sourceLang?: string, roomId?: string): GlossaryEntry[] {
+  const applies = (e: GlossaryEntry) =>
+    e.targetLang === targetLang && (e.sourceLang === "*" || !sourceLang || e.sourceLang === sourceLang);
+  const room = (roomId ? roomGlossaries.get(roomId) ?? [] : []).filter(applies);
+  const global = globalGlossary.filter(applies).filter((g) => !room.some((r) => sameTerm(r, g)));
+  // longest terms first so "Bolcha Pro" wins over "Bolcha"
+  return [...room, ...global].sort((a, b) => b.term.length - a.term.length);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Word boundaries only make sense for scripts that separate words with spaces
+function termPattern(term: string): string {
+  const edge = /[A-Za-z0-9]/;
+  const start = edge.test(term[0]) ? "(?<![A-Za-z0-9_])" : "";
+  const end = edge.test(term[term.length - 1]) ? "(?![A-Za-z0-9_])" : "";
+  return `${start}${escapeRegExp(term)}${end}`;
+}
+
+// Entries whose term occurs in `text` (case-insensitive)
+export function matchGlossary(text: string, entries: GlossaryEntry[]): GlossaryEntry[] {
+  return entries.filter((e) => new RegExp(termPattern(e.term), "iu").test(text));
+}
+
+// Before the endpoint call: replace terms with placeholders whose token is the target rendering.
+// Numbering continues after the protected-span tokens so one unmask pass restores both.
+export function maskGlossaryTerms(masked: MaskedText, entries: GlossaryEntry[]): MaskedText {
+  if (!entries.length) return masked;
+  const tokens = [...masked.tokens];
+  // existing placeholders are matched first and left alone
+  const re = new RegExp(["⟦[^⟧]*⟧", ...entries.map((e) => `(${termPattern(e.term)})`)].join("|"), "giu");
+  const text = masked.text.replace(re, (m, ...args) => {
+    const groups = args.slice(0, entries.length) as (string | undefined)[];
+    const idx = groups.findIndex((g) => g !== undefined);
+    if (idx === -1) return m;
+    tokens.push(entries[idx].translation);
+    return placeholder(tokens.length - 1);
+  });
+  return { text, tokens };
+}
+
+// After the endpoint call (on the raw output, placeholders still in place): a source term the
+// translator produced on its own, e.g. from an inflected form we could not mask, is replaced too.
+// Entries whose rendering contains the term are skipped so the replacement cannot cascade.
+export function enforceGlossary(translated: string, entries: GlossaryEntry[]): string {
+  return entries.reduce((out, e) => {
+    if (e.translation.toLowerCase().includes(e.term.toLowerCase())) return out;
+    return out.replace(new RegExp(termPattern(e.term), "giu"), e.translation);
+  }, translated);
+}
+
+// Short stable fingerprint so cache entries change when the applied glossary does
+export function glossarySignature(entries: GlossaryEntry[]): string {
+  const src = entries.map((e) => `${e.term}\u0001${e.translation}`).sort().join("\u0002");
+  let h = 5381;
+  for (let i = 0; i < src.length; i++) h = ((h << 5) + h + src.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+}
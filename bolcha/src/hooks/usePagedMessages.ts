@@ -0,0 +1,189 @@
+// Windowed live subscription to messages ordered by `createdAt` (room timeline, thread panel).
+// The newest `pageSize` messages and everything after them are subscribed on open; older pages
+// are fetched with `startAfter` cursors on demand and then kept live over their fixed range.
+// `loadOlder(through)` loads everything down to a given message at once (permalinks).
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getDocs, onSnapshot, orderBy, limit, limitToLast, startAt, startAfter, endAt, endBefore } from "firebase/firestore";
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+
+export interface MessageSource {
+  key: string; // subscriptions restart when it changes
+  build: (...constraints: unknown[]) => unknown; // base query (collection + filters) with extra constraints
+  // messages that fill a page; pages are topped up past the others (e.g. replies the caller hides)
+  counts?: (d: QueryDocumentSnapshot) => boolean;
+}
+
+export interface PagedMessages<T> {
+  items: T[]; // oldest first
+  ready: boolean; // first snapshot of the newest messages arrived
+  // the newest messages could not be loaded from the server; at most `pageSize` are shown
+  error: boolean;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  // next page, or with `through` every message down to and including that one
+  loadOlder: (through?: QueryDocumentSnapshot) => Promise<void>;
+}
+
+// Extra fetches per page when most messages of a page do not count
+const MAX_TOP_UP_FETCHES = 5;
+
+// Messages older than `cursor` (all of them from the newest without one), newest first: enough
+// for `pageSize` counted messages, or with `through` everything down to that message.
+// `more` is false once the oldest message was reached.
+async function fetchPage(source: MessageSource, pageSize: number, cursor: QueryDocumentSnapshot | null, through?: QueryDocumentSnapshot) {
+  const docs: QueryDocumentSnapshot[] = [];
+  let counted = 0;
+  for (let fetches = 1; ; fetches++) {
+    const after = docs.length ? docs[docs.length - 1] : cursor;
+    const snap = await getDocs(source.build(
+      orderBy("createdAt", "desc"),
+      ...(after ? [startAfter(after)] : []),
+      through ? endAt(through) : limit(pageSize)
+    ));
+    docs.push(...snap.docs);
+    if (through) return { docs, more: true };
+    if (snap.docs.length < pageSize) return { docs, more: false };
+    counted += source.counts ? snap.docs.filter(source.counts).length : snap.docs.length;
+    if (counted >= pageSize || fetches > MAX_TOP_UP_FETCHES) return { docs, more: true };
+  }
+}
+
+export function usePagedMessages<T extends { id: string }>(
+  source: MessageSource | null,
+  toItem: (d: QueryDocumentSnapshot) => T,
+  pageSize: number,
+  onBeforePrepend?: () => void // e.g. to remember the scroll height before older items are added
+): PagedMessages<T> {
+  const [liveItems, setLiveItems] = useState<T[]>([]);
+  const [olderPages, setOlderPages] = useState<T[][]>([]); // oldest page first
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
+  // snapshot of the oldest loaded message; `startAfter` cursor of the next page
+  const oldestCursorRef = useRef<QueryDocumentSnapshot | null>(null);
+  const pageUnsubsRef = useRef<(() => void)[]>([]);
+  const latest = useRef({ source, toItem, onBeforePrepend });
+  latest.current = { source, toItem, onBeforePrepend };
+
+  const items = useMemo(() => {
+    const seen = new Set<string>();
+    // page ranges do not overlap, but a message can be in two lists while a listener catches up
+    return [...olderPages.flat(), ...liveItems].filter((m) => {
+      if (seen.has(m.id)) return false;
+      seen.add(m.id);
+      return true;
+    });
+  }, [olderPages, liveItems]);
+
+  const key = source?.key;
+  useEffect(() => {
+    setLiveItems([]);
+    setOlderPages([]);
+    setHasOlder(false);
+    setReady(false);
+    setError(false);
+    oldestCursorRef.current = null;
+    const src = latest.current.source;
+    if (!src) return;
+    let cancelled = false;
+    let unsub: (() => void) | null = null;
+
+    // The oldest message of the first page anchors the live query, so messages stay in it
+    // when newer ones arrive. Without an anchor (empty room, failed first fetch) the newest
+    // `pageSize` are watched until the window is full, which then becomes the anchor.
+    const subscribe = (anchor: QueryDocumentSnapshot | null) => {
+      unsub?.();
+      const q = anchor
+        ? src.build(orderBy("createdAt", "asc"), startAt(anchor))
+        : src.build(orderBy("createdAt", "asc"), limitToLast(pageSize));
+      unsub = onSnapshot(
+        q,
+        (snap) => {
+          setLiveItems(snap.docs.map(latest.current.toItem));
+          setReady(true);
+          if (!snap.metadata.fromCache) setError(false);
+          const oldest = snap.docs[0];
+          // a pending server timestamp cannot be a cursor; the next snapshot tries again
+          if (!anchor && snap.docs.length >= pageSize && !oldest.metadata.hasPendingWrites) {
+            oldestCursorRef.current = oldest;
+            setHasOlder(true);
+            subscribe(oldest);
+          }
+        },
+        (err: unknown) => {
+          console.error("[messages] live query failed", err);
+          setError(true);
+          setReady(true);
+        }
+      );
+    };
+
+    fetchPage(src, pageSize, null).then(
+      ({ docs, more }) => {
+        if (cancelled) return;
+        const anchor = docs.length ? docs[docs.length - 1] : null;
+        oldestCursorRef.current = more ? anchor : null;
+        setHasOlder(more);
+        subscribe(anchor);
+      },
+      (err: unknown) => {
+        if (cancelled) return;
+        console.error("[messages] failed to load messages", err);
+        setError(true);
+        subscribe(null);
+      }
+    );
+    return () => {
+      cancelled = true;
+      unsub?.();
+      pageUnsubsRef.current.forEach((u) => u());
+      pageUnsubsRef.current = [];
+    };
+  }, [key, pageSize]);
+
+  const loadOlder = async (through?: QueryDocumentSnapshot) => {
+    const cursor = oldestCursorRef.current;
+    const src = latest.current.source;
+    if (!src || !cursor || loadingOlderRef.current) return;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const { docs, more } = await fetchPage(src, pageSize, cursor, through);
+      if (oldestCursorRef.current !== cursor) return; // source changed meanwhile
+      if (!docs.length) {
+        if (!through) setHasOlder(false);
+        return;
+      }
+      const oldest = docs[docs.length - 1];
+      oldestCursorRef.current = oldest;
+      // after a jump the next regular page tells whether there is more
+      setHasOlder(more);
+      latest.current.onBeforePrepend?.();
+      // show the page at once, then keep its range [oldest, cursor) live like the newest messages
+      const page = pageUnsubsRef.current.length;
+      const setPage = (pageItems: T[]) =>
+        setOlderPages((prev) => {
+          const next = [...prev];
+          next[next.length - 1 - page] = pageItems;
+          return next;
+        });
+      setOlderPages((prev) => [docs.map(latest.current.toItem).reverse(), ...prev]);
+      pageUnsubsRef.current.push(
+        onSnapshot(
+          src.build(orderBy("createdAt", "asc"), startAt(oldest), endBefore(cursor)),
+          (pageSnap) => setPage(pageSnap.docs.map(latest.current.toItem))
+        )
+      );
+    } catch (err) {
+      console.error("[messages] failed to load older messages", err);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  return { items, ready, error, hasOlder, loadingOlder, loadOlder };
+}
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../firebase';
 import type { UserPreferences } from '../types';
+import { canonicalLang } from '../langDetect';
 
 export const useUserPrefs = (uid: string) => {
   const [prefs, setPrefs] = useState<UserPreferences>(() => {
@@ -15,7 +16,7 @@ export const useUserPrefs = (uid: string) => {
 
   const [lang, setLang] = useState<string>(() => {
     try {
-      return localStorage.getItem("chat_lang") || "en";
+      return canonicalLang(localStorage.getItem("chat_lang"));
     } catch {
       return "en";
     }
@@ -35,7 +36,7 @@ export const useUserPrefs = (uid: string) => {
             return merged;
           });
           if (data.lang) {
-            setLang(data.lang);
+            setLang(canonicalLang(data.lang));
           }
         }
       } catch {}
@@ -15,6 +15,8 @@ const translations: Record<UILang, Record<string, string>> = {
     right: "Right",
     left: "Left",
     showOriginal: "Show original text below translation",
+    knownLangs: "Languages I understand:",
+    knownLangsDesc: "Messages in these languages are shown in the original, without translation",
     save: "Save",
     saving: "Saving...",
     uiLanguage: "UI language:",
@@ -26,6 +28,35 @@ const translations: Record<UILang, Record<string, string>> = {
     externalLinkWarning: "Opening External Link!\nPlease be careful of fraudulent or malicious websites!",
     cancel: "Cancel",
     ok: "OK",
+    translationCache: "Translation cache:",
+    translationCacheSummary: "entries",
+    translationCacheHitRate: "hit rate",
+    clearTranslationCache: "Clear translation cache",
+    clearTranslationCacheConfirm: "Delete all translations saved in this browser? They will be fetched again when needed.",
+    translationCacheCleared: "Translation cache cleared",
+    sourceLangAuto: "Auto",
+    sourceLangHint: "Language of your message (detected automatically; choose one if it is wrong)",
+    correctSourceLang: "Language of this message (changing it translates the message again)",
+    loadOlderMessages: "Load older messages",
+    loadingOlderMessages: "Loading older messages...",
+    messagesLoadFailed: "Could not load messages. Check your connection.",
+    editMessage: "Edit",
+    editingMessage: "Editing:",
+    edited: "(edited)",
+    editHistory: "Edit history",
+    editHistoryCurrent: "Current",
+    close: "Close",
+    thread: "Thread",
+    threadReply: "reply",
+    threadReplies: "replies",
+    replyInThread: "Reply in thread",
+    inThread: "in thread",
+    threadPlaceholder: "Reply in thread...",
+    threadDeleteNote: "Replies only in its thread are deleted too.",
+    alsoSendToRoom: "Also send to room",
+    copyLink: "Copy link to this message",
+    originalMessage: "Original message",
+    addReaction: "Add reaction",
   },
   ja: {
     profileSettings: "プロフィール設定",
@@ -39,6 +70,8 @@ const translations: Record<UILang, Record<string, string>> = {
     right: "右",
     left: "左",
     showOriginal: "翻訳の下に原文を表示",
+    knownLangs: "理解できる言語：",
+    knownLangsDesc: "これらの言語のメッセージは翻訳せず原文のまま表示します",
     save: "保存",
     saving: "保存中...",
     uiLanguage: "表示言語：",
@@ -50,6 +83,35 @@ const translations: Record<UILang, Record<string, string>> = {
     externalLinkWarning: "外部リンクを開こうとしています！\n詐欺や悪意のあるサイトには十分注意してください！",
     cancel: "キャンセル",
     ok: "OK",
+    translationCache: "翻訳キャッシュ：",
+    translationCacheSummary: "件",
+    translationCacheHitRate: "ヒット率",
+    clearTranslationCache: "翻訳キャッシュを削除",
+    clearTranslationCacheConfirm: "このブラウザに保存された翻訳をすべて削除しますか？必要に応じて再取得されます。",
+    translationCacheCleared: "翻訳キャッシュを削除しました",
+    sourceLangAuto: "自動",
+    sourceLangHint: "メッセージの言語（自動判定。違う場合は選択してください）",
+    correctSourceLang: "このメッセージの言語（変更すると翻訳し直します）",
+    loadOlderMessages: "以前のメッセージを読み込む",
+    loadingOlderMessages: "以前のメッセージを読み込み中...",
+    messagesLoadFailed: "メッセージを読み込めませんでした。接続を確認してください。",
+    editMessage: "編集",
+    editingMessage: "編集中：",
+    edited: "（編集済み）",
+    editHistory: "編集履歴",
+    editHistoryCurrent: "現在",
+    close: "閉じる",
+    thread: "スレッド",
+    threadReply: "件の返信",
+    threadReplies: "件の返信",
+    replyInThread: "スレッドで返信",
+    inThread: "スレッド内の返信",
+    threadPlaceholder: "スレッドに返信...",
+    threadDeleteNote: "スレッド内だけの返信も削除されます。",
+    alsoSendToRoom: "ルームにも送信",
+    copyLink: "このメッセージへのリンクをコピー",
+    originalMessage: "元のメッセージ",
+    addReaction: "リアクションを追加",
   },
 };
 
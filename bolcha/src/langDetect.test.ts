@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { detectLanguageSync, messageLanguages } from "./langDetect";
+
+describe("detectLanguageSync", () => {
+  it.each([
+    ["ok", "en"],
+    ["lol", "en"],
+    ["了解です", "ja"],
+    ["这个问题我们明天再说", "zh-CN"],
+    ["這個問題我們明天再說", "zh-TW"],
+    ["안녕하세요", "ko"],
+    ["Привет, как дела?", "ru"],
+    ["¿Dónde está la estación de tren?", "es"],
+    ["Je ne sais pas ce que tu veux dire", "fr"],
+  ])("%s → %s", (text, lang) => {
+    expect(detectLanguageSync(text)).toBe(lang);
+  });
+
+  // emoji, curly apostrophes and words in other scripts used to disable the English fallback
+  it.each([
+    "ok 👍",
+    "Good morning! 😊",
+    "thanks 🙏",
+    "don’t worry",
+    "I’m here",
+    "I love 寿司 so much",
+  ])("%s → en", (text) => {
+    expect(detectLanguageSync(text)).toBe("en");
+  });
+});
+
+describe("messageLanguages", () => {
+  it("lists the languages of a mixed message, largest part first", () => {
+    expect(messageLanguages("了解です、明日までに送ります\nwill do, thanks a lot")).toEqual(["ja", "en"]);
+  });
+});
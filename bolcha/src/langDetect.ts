@@ -1,20 +1,298 @@
 // src/langDetect.ts
+// Two stages, all offline:
+//   1. a histogram of the writing systems in the text; the script with the largest share of
+//      letters decides (not the first one seen), so a single kana or Latin word in Chinese
+//      text does not flip the result
+//   2. within a script shared by several languages (Latin, Cyrillic, Arabic, Devanagari)
+//      franc-min's trigram model picks the language; Han text is split into zh-CN / zh-TW by
+//      characters that only exist in one of the two forms
+// Short or ambiguous Latin text without diacritics falls back to English, which is what most
+// one-word chat replies ("ok", "lol", "thx 🙏") are; emoji, punctuation and words in other
+// scripts do not count either way.
+// `segmentLanguages` splits mixed messages ("了解です, will do") into runs of one language each.
 
-// Return a 2-letter ISO-639-1 code in lowercase (e.g. "ja", "en")
-function normalize(code: string): string {
-  return (code || "en").slice(0, 2).toLowerCase();
+import { francAll } from "franc-min";
+
+export interface LanguageGuess {
+  lang: string;       // code as stored in `originalLang` (see canonicalLang)
+  confidence: number; // 0..1
 }
 
-export function detectLanguageSync(text: string): string {
+// Consecutive part of a line written in one language; the texts of all runs joined give the line
+export interface LanguageRun extends LanguageGuess {
+  text: string;
+}
+
+type Script =
+  | "latin" | "han" | "kana" | "hangul" | "cyrillic" | "arabic"
+  | "hebrew" | "thai" | "devanagari" | "greek";
+
+const SCRIPT_RES: [Script, RegExp][] = [
+  ["latin", /\p{Script=Latin}/u],
+  ["han", /\p{Script=Han}/u],
+  ["kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ["hangul", /\p{Script=Hangul}/u], // syllables and (compatibility) jamo such as ㅋㅋ
+  ["cyrillic", /\p{Script=Cyrillic}/u],
+  ["arabic", /\p{Script=Arabic}/u],
+  ["hebrew", /\p{Script=Hebrew}/u],
+  ["thai", /\p{Script=Thai}/u],
+  ["devanagari", /\p{Script=Devanagari}/u],
+  ["greek", /\p{Script=Greek}/u],
+];
+
+// Scripts used by a single supported language
+const SCRIPT_LANGS: Partial<Record<Script, string>> = {
+  hangul: "ko",
+  hebrew: "he",
+  thai: "th",
+  greek: "el",
+};
+
+// franc (ISO 639-3) → app codes, per script. Also the `only` lists, so franc never answers
+// with one of its other languages for text that merely looks similar.
+const FRANC_LANGS: Partial<Record<Script, Record<string, string>>> = {
+  latin: {
+    eng: "en",
+    spa: "es",
+    fra: "fr",
+    deu: "de",
+    ita: "it",
+    por: "pt",
+    nld: "nl",
+    vie: "vi",
+    ind: "id",
+    tur: "tr",
+    pol: "pl",
+    swe: "sv",
+  },
+  cyrillic: { rus: "ru", ukr: "uk", bel: "be", bul: "bg", kaz: "kk" },
+  arabic: { arb: "ar", pes: "fa", urd: "ur" },
+  devanagari: { hin: "hi", mar: "mr", npi: "ne" },
+};
+
+// Characters that differ between Simplified and Traditional Chinese (and are not Japanese
+// shinjitai). Only used to tell zh-CN from zh-TW.
+const SIMPLIFIED_CHARS = "们这说个时为对过还没发问题学国长开关门见车东书头现点实让语话请谢边电样网买卖吗么爱欢听写读动两觉钱乐难飞报华经业义应机气员间进认识脑页视岁号饭";
+const TRADITIONAL_CHARS = "們這說個時為對過還沒發問題學國長開關門見車東書頭現點實讓語話請謝邊電樣網買賣嗎麼愛歡聽寫讀動兩覺錢樂難飛報華經業義應機氣員間進認識腦頁視歲號飯";
+
+// Han, kana and Hangul carry about a word per character, so they count double against
+// alphabetic scripts ("React で作った" is Japanese)
+const SYLLABIC_WEIGHT = 2;
+
+// Kana share of the Han + kana letters from which text is Japanese. A lone の, common as a
+// loanword in Chinese posts, does not count towards it.
+const MIN_KANA_SHARE = 0.1;
+
+// Latin text without diacritics is only reported as non-English when it has this many Latin
+// letters and English trails the best match by at least MIN_ENGLISH_GAP (trigram scores of
+// short replies are mostly noise)
+const MIN_LATIN_LETTERS = 15;
+const MIN_ENGLISH_GAP = 0.2;
+// Share of plain a–z among the Latin letters from which diacritics do not rule out English
+// (a loanword like "café" in an English sentence)
+const MIN_PLAIN_LATIN_SHARE = 0.95;
+// Below this the first language listed for the script is used (e.g. Arabic rather than Persian)
+const MIN_FRANC_CONFIDENCE = 0.15;
+// Letters needed before the trigram score is trusted fully
+const FULL_CONFIDENCE_LETTERS = 30;
+
+// Canonical form of a language code: the lowercase primary subtag (e.g. "ja", "en"), except
+// Chinese which keeps its written form ("zh-CN" / "zh-TW"; plain "zh" means Simplified)
+export function canonicalLang(code: string | undefined | null): string {
+  const c = (code || "en").trim().toLowerCase().replace("_", "-");
+  if (c === "zh" || c.startsWith("zh-")) {
+    return /^zh-(tw|hk|mo|hant)/.test(c) ? "zh-TW" : "zh-CN";
+  }
+  return c.split("-")[0] || "en";
+}
+
+export function sameLanguage(a: string | undefined | null, b: string | undefined | null): boolean {
+  return canonicalLang(a) === canonicalLang(b);
+}
+
+function scriptOf(ch: string): Script | null {
+  return SCRIPT_RES.find(([, re]) => re.test(ch))?.[0] ?? null;
+}
+
+function isSyllabic(script: Script): boolean {
+  return script === "han" || script === "kana" || script === "hangul";
+}
+
+function scriptHistogram(text: string): Map<Script, number> {
+  const counts = new Map<Script, number>();
+  for (const ch of text) {
+    const script = scriptOf(ch);
+    if (!script) continue;
+    counts.set(script, (counts.get(script) ?? 0) + (isSyllabic(script) ? SYLLABIC_WEIGHT : 1));
+  }
+  return counts;
+}
+
+function countChars(text: string, chars: string): number {
+  let n = 0;
+  for (const ch of text) if (chars.includes(ch)) n++;
+  return n;
+}
+
+// Only the Latin words of `text`, for franc: emoji, symbols and other scripts are trigram noise
+function latinPart(text: string): string {
+  return text
+    .replace(/\u2019/g, "'")
+    .replace(/[^\p{Script=Latin}\s']/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function plainLatinShare(text: string): number {
+  const letters = text.match(/\p{Script=Latin}/gu) ?? [];
+  return letters.length ? letters.filter((c) => /[a-z]/i.test(c)).length / letters.length : 0;
+}
+
+function chineseVariant(text: string): string {
+  return countChars(text, TRADITIONAL_CHARS) > countChars(text, SIMPLIFIED_CHARS) ? "zh-TW" : "zh-CN";
+}
+
+interface FrancGuess extends LanguageGuess {
+  englishGap: number; // how far English trails the best match (0 when English is best)
+}
+
+// Confidence = lead over the runner-up, damped for short input
+function francGuess(text: string, langs: Record<string, string>, letters: number): FrancGuess | null {
+  const scores = francAll(text, { only: Object.keys(langs), minLength: 3 });
+  const [best, second] = scores;
+  if (!best || !langs[best[0]]) return null; // "und": too short
+  const english = scores.find(([code]) => code === "eng")?.[1] ?? 0;
+  return {
+    lang: langs[best[0]],
+    confidence: (1 - (second?.[1] ?? 0)) * Math.min(1, letters / FULL_CONFIDENCE_LETTERS),
+    englishGap: 1 - english,
+  };
+}
+
+export function guessLanguage(text: string): LanguageGuess {
   const t = (text || '').trim();
-  if (!t) return normalize('en');
-  if (/^[\u0000-\u007f]+$/.test(t)) return normalize('en');         // ASCII
-  if (/[\u3040-\u30ff\u31f0-\u31ff]/.test(t)) return normalize('ja'); // Hiragana/Katakana
-  if (/[\uac00-\ud7af]/.test(t))       return normalize('ko');        // Hangul
-  if (/[\u4e00-\u9fff]/.test(t))       return normalize('zh');        // CJK Ideographs
-  return normalize('en');
+  const counts = scriptHistogram(t);
+  const total = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+  if (!total) return { lang: 'en', confidence: 0 };
+
+  // Han and kana are weighed together: Japanese mixes both
+  const han = counts.get("han") ?? 0;
+  const kana = counts.get("kana") ?? 0;
+  const cjk = han + kana;
+  const [script, count] = Array.from(counts.entries())
+    .filter(([s]) => s !== "han" && s !== "kana")
+    .reduce<[Script | "cjk", number]>((best, cur) => (cur[1] > best[1] ? cur : best), ["cjk", cjk]);
+  const share = count / total;
+
+  if (script === "cjk") {
+    const kanaWithoutNo = kana === SYLLABIC_WEIGHT && /[のノ]/.test(t) ? 0 : kana;
+    if (kanaWithoutNo / cjk >= MIN_KANA_SHARE) return { lang: 'ja', confidence: share };
+    return { lang: chineseVariant(t), confidence: share };
+  }
+  const single = SCRIPT_LANGS[script];
+  if (single) return { lang: single, confidence: share };
+
+  const langs = FRANC_LANGS[script] ?? {};
+  const fallback = script === "latin" ? 'en' : Object.values(langs)[0];
+  const guess = francGuess(script === "latin" ? latinPart(t) : t, langs, count);
+  if (!guess) return { lang: fallback, confidence: 0 };
+  if (script !== "latin" && guess.confidence < MIN_FRANC_CONFIDENCE) {
+    return { lang: fallback, confidence: guess.confidence * share };
+  }
+  if (script === "latin") {
+    // diacritics already rule out plain English, so trust the model's pick there
+    const plain = plainLatinShare(t) >= MIN_PLAIN_LATIN_SHARE;
+    if (plain && guess.lang !== 'en' && (count < MIN_LATIN_LETTERS || guess.englishGap < MIN_ENGLISH_GAP)) {
+      return { lang: 'en', confidence: 0 };
+    }
+  }
+  return { lang: guess.lang, confidence: guess.confidence * share };
+}
+
+export function detectLanguageSync(text: string): string {
+  return guessLanguage(text).lang;
 }
 
 export async function detectLanguage(text: string): Promise<string> {
-  return normalize(detectLanguageSync(text));
-}
\ No newline at end of file
+  return canonicalLang(detectLanguageSync(text));
+}
+
+/* ---------- Mixed-language messages ---------- */
+
+// Runs shorter than this stay part of their neighbour: a single Latin word in Japanese text
+// ("Reactで作った") or one kanji in English text is a loanword, not a language switch
+const MIN_RUN_WORDS = 2;
+const MIN_RUN_CHARS = 2; // syllabic scripts and Thai, which do not separate words
+
+interface ScriptRun {
+  text: string;
+  group: string | null; // script, with Han and kana together; null = no letters yet
+}
+
+function isMinorRun(run: ScriptRun): boolean {
+  if (run.group === "cjk" || run.group === "hangul" || run.group === "thai") {
+    return (run.text.match(/[^\s\p{P}\p{S}\p{N}]/gu) ?? []).length < MIN_RUN_CHARS;
+  }
+  return (run.text.match(/\p{L}+/gu) ?? []).length < MIN_RUN_WORDS;
+}
+
+// Split by writing system; spaces, punctuation, digits and placeholders stay with the run before
+function scriptRuns(line: string): ScriptRun[] {
+  const runs: ScriptRun[] = [];
+  for (const ch of line) {
+    const script = scriptOf(ch);
+    const group = script === "han" || script === "kana" ? "cjk" : script;
+    const last = runs[runs.length - 1];
+    if (last && (group === null || last.group === null || last.group === group)) {
+      last.text += ch;
+      if (last.group === null) last.group = group;
+    } else {
+      runs.push({ text: ch, group });
+    }
+  }
+  return runs;
+}
+
+// Join runs of the same kind that became neighbours
+function mergeRuns<T extends { text: string }>(runs: T[], same: (a: T, b: T) => boolean): T[] {
+  return runs.reduce<T[]>((out, run) => {
+    const last = out[out.length - 1];
+    if (last && same(last, run)) last.text += run.text;
+    else out.push({ ...run });
+    return out;
+  }, []);
+}
+
+// Language runs of one line. A line in a single language gives one run.
+export function segmentLanguages(line: string): LanguageRun[] {
+  let runs = scriptRuns(line);
+  // minor runs are absorbed by the run before them (the first one by the run after it)
+  for (let i = 0; i < runs.length && runs.length > 1; ) {
+    if (!isMinorRun(runs[i])) {
+      i++;
+      continue;
+    }
+    const target = i > 0 ? i - 1 : i + 1;
+    runs[target] = target < i
+      ? { ...runs[target], text: runs[target].text + runs[i].text }
+      : { ...runs[target], text: runs[i].text + runs[target].text };
+    runs.splice(i, 1);
+    if (target < i) i = Math.max(0, i - 1);
+  }
+  runs = mergeRuns(runs, (a, b) => a.group === b.group);
+  if (runs.length < 2) return [{ text: line, ...guessLanguage(line) }];
+  return mergeRuns(
+    runs.map((r) => ({ text: r.text, ...guessLanguage(r.text) })),
+    (a, b) => a.lang === b.lang
+  );
+}
+
+// Distinct languages of a message over all its lines, largest part first
+export function messageLanguages(text: string): string[] {
+  const size = new Map<string, number>();
+  text.split("\n").filter((l) => l.trim()).flatMap(segmentLanguages).forEach((r) => {
+    const letters = Array.from(scriptHistogram(r.text).values()).reduce((a, b) => a + b, 0);
+    size.set(r.lang, (size.get(r.lang) ?? 0) + letters);
+  });
+  return Array.from(size.entries()).sort((a, b) => b[1] - a[1]).map(([lang]) => lang);
+}
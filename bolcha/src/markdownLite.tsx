@@ -0,0 +1,149 @@
+// Markdown-lite formatting of message text, built as React nodes (never as HTML strings).
+//   blocks: ``` fenced code ```, "> " quotes, "- " / "* " / "1. " list items; other lines as typed
+//   inline: **bold**, *italic* or _italic_, ~~strikethrough~~, `code`
+// Text between the markers is handed to `renderText` (links, @mentions); code is shown verbatim.
+// The markers are protected spans (protectedSpans.ts), so translations keep them in place.
+// Parsing is pure: the same text always gives the same nodes.
+
+import * as React from "react";
+
+// Renders a run of plain text (no markers left in it)
+export type TextRenderer = (text: string) => React.ReactNode;
+
+type Block =
+  | { type: "code"; text: string }
+  | { type: "quote"; lines: string[] }
+  | { type: "list"; ordered: boolean; start: number; items: string[] }
+  | { type: "text"; lines: string[] };
+
+const FENCE_RE = /^\s*```/;
+const ONE_LINE_FENCE_RE = /^\s*```(.+?)```\s*$/;
+const QUOTE_RE = /^\s*>(?:\s(.*))?$/;
+const BULLET_RE = /^\s*[-*+•]\s+(.*)$/;
+const ORDERED_RE = /^\s*(\d+)[.)]\s+(.*)$/;
+
+// Alternatives in priority order; a match is formatted, the text between matches is plain.
+// URLs are matched whole so "_" or "*" inside them is never read as a marker.
+const INLINE_RE = new RegExp([
+  /`([^`\n]+)`/.source,                                        // 1: code
+  /(https?:\/\/[^\s]+|www\.[^\s]+)/.source,                    // 2: URL
+  /\*\*(?=\S)(.+?)(?<=\S)\*\*/.source,                         // 3: bold
+  /~~(?=\S)(.+?)(?<=\S)~~/.source,                             // 4: strikethrough
+  /\*(?=[^\s*])(.+?)(?<=[^\s*])\*/.source,                     // 5: italic
+  // "_" only between non-letters, so snake_case and @handles with "_" stay as they are
+  String.raw`(?<![\p{L}\p{N}_])_(?=[^\s_])(.+?)(?<=[^\s_])_(?![\p{L}\p{N}_])`, // 6: italic
+].join("|"), "gu");
+
+const CODE_STYLE: React.CSSProperties = {
+  fontFamily: "monospace",
+  fontSize: "0.9em",
+  background: "rgba(0,0,0,0.06)",
+  borderRadius: 4,
+};
+
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = text.split("\n");
+  // consecutive lines of the same kind form one block
+  const append = <T extends Block["type"]>(type: T): Extract<Block, { type: T }> | null => {
+    const last = blocks[blocks.length - 1];
+    return last?.type === type ? (last as Extract<Block, { type: T }>) : null;
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const oneLine = ONE_LINE_FENCE_RE.exec(line);
+    if (oneLine) {
+      blocks.push({ type: "code", text: oneLine[1] });
+      continue;
+    }
+    if (FENCE_RE.test(line)) {
+      const end = lines.findIndex((l, j) => j > i && FENCE_RE.test(l));
+      // an unclosed fence is ordinary text
+      if (end > i) {
+        blocks.push({ type: "code", text: lines.slice(i + 1, end).join("\n") });
+        i = end;
+        continue;
+      }
+    }
+    const quote = QUOTE_RE.exec(line);
+    if (quote) {
+      const block = append("quote");
+      if (block) block.lines.push(quote[1] ?? "");
+      else blocks.push({ type: "quote", lines: [quote[1] ?? ""] });
+      continue;
+    }
+    const bullet = BULLET_RE.exec(line);
+    const ordered = bullet ? null : ORDERED_RE.exec(line);
+    const item = bullet?.[1] ?? ordered?.[2];
+    if (item !== undefined) {
+      const block = append("list");
+      if (block && block.ordered === !!ordered) block.items.push(item);
+      else blocks.push({ type: "list", ordered: !!ordered, start: ordered ? Number(ordered[1]) : 1, items: [item] });
+      continue;
+    }
+    const block = append("text");
+    if (block) block.lines.push(line);
+    else blocks.push({ type: "text", lines: [line] });
+  }
+  return blocks;
+}
+
+function renderInline(text: string, renderText: TextRenderer): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  let key = 0;
+  const plain = (s: string) => {
+    if (s) nodes.push(<React.Fragment key={key++}>{renderText(s)}</React.Fragment>);
+  };
+  for (const m of text.matchAll(INLINE_RE)) {
+    const start = m.index ?? 0;
+    plain(text.slice(last, start));
+    last = start + m[0].length;
+    const [, code, url, bold, strike, italic, underscored] = m;
+    if (code !== undefined) nodes.push(<code key={key++} style={{ ...CODE_STYLE, padding: "0 4px" }}>{code}</code>);
+    else if (url !== undefined) plain(url);
+    else if (bold !== undefined) nodes.push(<strong key={key++}>{renderInline(bold, renderText)}</strong>);
+    else if (strike !== undefined) nodes.push(<s key={key++}>{renderInline(strike, renderText)}</s>);
+    else nodes.push(<em key={key++}>{renderInline(italic ?? underscored, renderText)}</em>);
+  }
+  plain(text.slice(last));
+  return nodes;
+}
+
+// Lines of a block with the line breaks kept (the bubble uses `white-space: pre-wrap`)
+function renderLines(lines: string[], renderText: TextRenderer): React.ReactNode[] {
+  return lines.map((line, i) => (
+    <React.Fragment key={i}>
+      {i > 0 && "\n"}
+      {renderInline(line, renderText)}
+    </React.Fragment>
+  ));
+}
+
+export function formatMessage(text: string, renderText: TextRenderer): React.ReactNode[] {
+  return parseBlocks(text).map((block, i) => {
+    switch (block.type) {
+      case "code":
+        return (
+          <pre key={i} style={{ ...CODE_STYLE, margin: "4px 0", padding: "6px 8px", whiteSpace: "pre-wrap" }}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "quote":
+        return (
+          <blockquote key={i} style={{ margin: "2px 0", paddingLeft: 8, borderLeft: "3px solid #bbb", color: "#555" }}>
+            {renderLines(block.lines, renderText)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, j) => <li key={j}>{renderInline(item, renderText)}</li>);
+        const style = { margin: "2px 0", paddingLeft: "1.4em" };
+        return block.ordered
+          ? <ol key={i} start={block.start} style={style}>{items}</ol>
+          : <ul key={i} style={style}>{items}</ul>;
+      }
+      default:
+        return <React.Fragment key={i}>{renderLines(block.lines, renderText)}</React.Fragment>;
+    }
+  });
+}
@@ -0,0 +1,47 @@
+// @mentions: `@handle` in the message text, the mentioned uids in `Message.mentions`.
+// A handle is the nickname with whitespace replaced by "_", so the whole mention is one
+// `@[^\s@]+` span that protectedSpans.ts (and the Cloud Functions copy) keep out of translation
+// and translated text still contains it verbatim.
+// All functions here are pure.
+
+export interface MentionCandidate {
+  uid: string;
+  handle: string;
+}
+
+// Partial mention being typed right before the caret ("@ta|")
+export interface MentionQuery {
+  start: number; // index of the "@"
+  query: string;
+}
+
+export function mentionHandle(nickname: string | undefined | null): string {
+  return (nickname ?? "").trim().replace(/\s+/g, "_");
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// `@handle` followed by the end, whitespace or punctuation ("@taro," but not "@taroX").
+// Longest handles first, so "@Tommy" is not read as "@Tom".
+export function mentionPattern(handles: string[]): RegExp | null {
+  const list = Array.from(new Set(handles.filter(Boolean))).sort((a, b) => b.length - a.length);
+  if (!list.length) return null;
+  return new RegExp(`@(?:${list.map(escapeRegExp).join("|")})(?=$|[\\s\\p{P}])`, "gu");
+}
+
+// Uids of the candidates mentioned in `text`
+export function findMentions(text: string, candidates: MentionCandidate[]): string[] {
+  const re = mentionPattern(candidates.map((c) => c.handle));
+  if (!re) return [];
+  const found = new Set((text.match(re) ?? []).map((m) => m.slice(1)));
+  return Array.from(new Set(candidates.filter((c) => found.has(c.handle)).map((c) => c.uid)));
+}
+
+// The mention being typed at `caret`: an "@" at the start or after whitespace, no space since
+export function activeMentionQuery(text: string, caret: number): MentionQuery | null {
+  const m = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!m) return null;
+  return { start: caret - m[2].length - 1, query: m[2] };
+}
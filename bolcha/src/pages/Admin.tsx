@@ -1,18 +1,59 @@
 import { useEffect, useState } from "react";
-import { collection, getDocs, doc, onSnapshot, setDoc, deleteDoc } from "firebase/firestore";
+import { collection, getDocs, doc, onSnapshot, setDoc, deleteDoc, updateDoc, deleteField } from "firebase/firestore";
 import { Link } from "react-router-dom";
 import { db, functions } from "../firebase";
 import { httpsCallable } from "firebase/functions";
 import type { User } from "firebase/auth";
-import type { RoomData, UserPreferences } from "../types";
+import type { RoomData, UserPreferences, GasEndpointEntry, ClientProviderType, GlossaryEntry } from "../types";
 import useIsAdmin from "../hooks/useIsAdmin";
 import ConfirmModal from "../components/ConfirmModal";
+import { parseEndpointEntry, describeEndpoint, endpointId, isClientEndpoint, createProvider, isQuotaExceededError } from "../translationProviders";
+import type { ClientEndpoint } from "../types";
+import { subscribeEndpointHealth } from "../endpointHealth";
+import type { EndpointHealth, CircuitState } from "../endpointHealth";
+import { loadEndpointStats, histogramMedian, flushEndpointStats } from "../endpointStats";
+import type { EndpointStatsSummary } from "../endpointStats";
+import { parseGlossary } from "../glossary";
+
+const STATS_DAYS = 7;
+const TEST_SAMPLE = { text: "Hello, how are you?", source: "en", target: "ja" };
+
+// Entries saved before keys moved out of admin/config still carry them there, readable by everyone
+function storedApiKey(entry: unknown): string | null {
+  const key = entry && typeof entry === "object" ? (entry as { apiKey?: unknown }).apiKey : null;
+  return typeof key === "string" && key ? key : null;
+}
+
+interface EndpointTestResult {
+  ok: boolean;
+  message: string;
+  ms: number;
+}
+
+const CIRCUIT_COLORS: Record<CircuitState, string> = {
+  closed: "#28a745",
+  "half-open": "#d69e2e",
+  open: "#e53e3e",
+};
 
 export default function Admin({ user }: { user: User }) {
   const isAdmin = useIsAdmin(user);
-  const [gasList, setGasList] = useState<string[]>([]);
+  const [gasList, setGasList] = useState<GasEndpointEntry[]>([]);
+  // upstreams of the Cloud Functions translate proxy (admin/config.proxyUpstreams)
+  const [proxyUpstreams, setProxyUpstreams] = useState<GasEndpointEntry[]>([]);
+  const [newUpstream, setNewUpstream] = useState("");
+  const [newUpstreamKey, setNewUpstreamKey] = useState("");
+  const [endpointHealth, setEndpointHealth] = useState<EndpointHealth[]>([]);
+  const [endpointStats, setEndpointStats] = useState<EndpointStatsSummary[]>([]);
+  const [statsLoading, setStatsLoading] = useState(false);
+  const [testResults, setTestResults] = useState<Record<string, EndpointTestResult | "running">>({});
   const [newUrl, setNewUrl] = useState("");
+  const [newType, setNewType] = useState<ClientProviderType>("gas");
   const [rooms, setRooms] = useState<(RoomData & { id: string })[]>([]);
+  // glossary editor state ("" scope = global admin/config, otherwise a room id)
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [glossaryScope, setGlossaryScope] = useState("");
+  const [newGlossaryEntry, setNewGlossaryEntry] = useState<GlossaryEntry>({ sourceLang: "*", targetLang: "", term: "", translation: "" });
   // room delete modal state
   const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
   const [autoDeleteHours, setAutoDeleteHours] = useState<number>(24);
@@ -34,6 +75,8 @@ export default function Admin({ user }: { user: User }) {
     const unsub = onSnapshot(cfgRef, (snap) => {
       const data = snap.data();
       setGasList(data?.gasEndpoints ?? []);
+      setProxyUpstreams(Array.isArray(data?.proxyUpstreams) ? data.proxyUpstreams : []);
+      setGlossary(parseGlossary(data?.glossary));
       if (typeof data?.autoDeleteHours === 'number') {
         setAutoDeleteHours(data.autoDeleteHours);
       }
@@ -47,6 +90,43 @@ export default function Admin({ user }: { user: User }) {
     return unsub;
   }, []);
 
+  // circuit breaker state of this browser's translation client (see endpointHealth.ts)
+  useEffect(() => subscribeEndpointHealth(setEndpointHealth), []);
+
+  const refreshEndpointStats = async () => {
+    setStatsLoading(true);
+    try {
+      await flushEndpointStats(); // include this browser's latest numbers
+      setEndpointStats(await loadEndpointStats(STATS_DAYS));
+    } catch (err) {
+      console.warn("[admin] failed to load endpoint stats", err);
+    } finally {
+      setStatsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) refreshEndpointStats();
+  }, [isAdmin]);
+
+  // Runs one sample translation directly against the endpoint (bypasses cache, pool and breaker)
+  const testEndpoint = async (ep: ClientEndpoint) => {
+    const id = endpointId(ep);
+    setTestResults((prev) => ({ ...prev, [id]: "running" }));
+    const started = performance.now();
+    let result: EndpointTestResult;
+    try {
+      const translated = await createProvider(ep).translate(TEST_SAMPLE.text, TEST_SAMPLE.target, { source: TEST_SAMPLE.source });
+      result = translated
+        ? { ok: true, message: translated, ms: performance.now() - started }
+        : { ok: false, message: "no translation returned", ms: performance.now() - started };
+    } catch (err) {
+      const message = isQuotaExceededError(err) ? `quota exceeded (${(err as Error).message})` : (err as Error)?.message ?? String(err);
+      result = { ok: false, message, ms: performance.now() - started };
+    }
+    setTestResults((prev) => ({ ...prev, [id]: result }));
+  };
+
   useEffect(() => {
     if (!isAdmin) return;
     const fetchRooms = async () => {
@@ -82,11 +162,44 @@ export default function Admin({ user }: { user: User }) {
     return unsub;
   }, [isAdmin]);
 
-  const saveGasList = async (list: string[]) => {
+  const saveGasList = async (list: GasEndpointEntry[]) => {
     const cfgRef = doc(db, "admin", "config");
     await setDoc(cfgRef, { gasEndpoints: list }, { merge: true });
   };
 
+  const scopedGlossary = glossaryScope
+    ? parseGlossary(rooms.find((r) => r.id === glossaryScope)?.glossary)
+    : glossary;
+
+  const saveGlossary = async (list: GlossaryEntry[]) => {
+    if (!glossaryScope) {
+      await setDoc(doc(db, "admin", "config"), { glossary: list }, { merge: true });
+      return;
+    }
+    await updateDoc(doc(db, "rooms", glossaryScope), { glossary: list });
+    setRooms((prev) => prev.map((r) => (r.id === glossaryScope ? { ...r, glossary: list } : r)));
+  };
+
+  const addGlossaryEntry = async () => {
+    const entry = {
+      sourceLang: newGlossaryEntry.sourceLang.trim() || "*",
+      targetLang: newGlossaryEntry.targetLang.trim(),
+      term: newGlossaryEntry.term.trim(),
+      translation: newGlossaryEntry.translation.trim(),
+    };
+    if (!entry.targetLang || !entry.term || !entry.translation) return;
+    // same term and language pair → replace the existing row
+    const list = scopedGlossary.filter((e) =>
+      !(e.sourceLang === entry.sourceLang && e.targetLang === entry.targetLang && e.term.toLowerCase() === entry.term.toLowerCase())
+    );
+    await saveGlossary([...list, entry]);
+    setNewGlossaryEntry({ ...newGlossaryEntry, term: "", translation: "" });
+  };
+
+  const removeGlossaryEntry = async (idx: number) => {
+    await saveGlossary(scopedGlossary.filter((_, i) => i !== idx));
+  };
+
   const saveAutoDeleteHours = async () => {
     const cfgRef = doc(db, "admin", "config");
     await setDoc(cfgRef, { autoDeleteHours }, { merge: true });
@@ -109,8 +222,10 @@ export default function Admin({ user }: { user: User }) {
   };
 
   const addEndpoint = async () => {
-    if (!newUrl.trim()) return;
-    const list = [...gasList, newUrl.trim()];
+    if (!newUrl.trim() && newType !== "mock") return;
+    // GAS endpoints stay plain strings so older clients keep working
+    const entry: GasEndpointEntry = newType === "gas" ? newUrl.trim() : { type: newType, url: newUrl.trim() };
+    const list = [...gasList, entry];
     await saveGasList(list);
     setNewUrl("");
   };
@@ -120,6 +235,58 @@ export default function Admin({ user }: { user: User }) {
     await saveGasList(list);
   };
 
+  const saveProxyUpstreams = async (list: GasEndpointEntry[]) => {
+    await setDoc(doc(db, "admin", "config"), { proxyUpstreams: list }, { merge: true });
+  };
+
+  // Upstream API keys live in adminSecrets/translationKeys (`type:url` → key): write-only here,
+  // read by the translate proxy only. `key: null` removes the stored key.
+  const saveUpstreamKeys = async (keys: Record<string, string | null>) => {
+    const update = Object.fromEntries(Object.entries(keys).map(([id, key]) => [id, key ?? deleteField()]));
+    await setDoc(doc(db, "adminSecrets", "translationKeys"), { keys: update }, { merge: true });
+  };
+
+  const addUpstream = async () => {
+    const ep = parseEndpointEntry(newUpstream);
+    if (!ep || ep.type === "proxy") return; // the proxy must not call itself
+    if (newUpstreamKey.trim()) await saveUpstreamKeys({ [endpointId(ep)]: newUpstreamKey.trim() });
+    await saveProxyUpstreams([...proxyUpstreams, newUpstream.trim()]);
+    setNewUpstream("");
+    setNewUpstreamKey("");
+  };
+
+  const removeUpstream = async (idx: number) => {
+    const ep = parseEndpointEntry(proxyUpstreams[idx]);
+    const list = proxyUpstreams.filter((_, i) => i !== idx);
+    // keep the key while another entry still points at the same upstream
+    if (ep && !list.some((e) => { const other = parseEndpointEntry(e); return other && endpointId(other) === endpointId(ep); })) {
+      await saveUpstreamKeys({ [endpointId(ep)]: null });
+    }
+    await saveProxyUpstreams(list);
+  };
+
+  // Older configs: `{ type, url, apiKey }` entries in either list, and LibreTranslate / DeepL
+  // entries in gasEndpoints (called from the browser). Keys move into adminSecrets, the
+  // LibreTranslate / DeepL entries become proxy upstreams.
+  const needsKeyMigration = [...gasList, ...proxyUpstreams].some(storedApiKey)
+    || gasList.some((entry) => { const ep = parseEndpointEntry(entry); return ep !== null && !isClientEndpoint(ep); });
+
+  const moveKeysToProxy = async () => {
+    const keys: Record<string, string> = {};
+    const strip = (entry: GasEndpointEntry): GasEndpointEntry => {
+      const ep = parseEndpointEntry(entry);
+      const key = storedApiKey(entry);
+      if (!ep || !key) return entry;
+      keys[endpointId(ep)] = key;
+      return { type: ep.type, url: ep.url, ...(ep.label ? { label: ep.label } : {}) };
+    };
+    const moved = gasList.filter((entry) => { const ep = parseEndpointEntry(entry); return ep !== null && !isClientEndpoint(ep); });
+    const upstreams = [...proxyUpstreams, ...moved].map(strip);
+    const endpoints = gasList.filter((entry) => !moved.includes(entry)).map(strip);
+    await saveUpstreamKeys(keys);
+    await setDoc(doc(db, "admin", "config"), { gasEndpoints: endpoints, proxyUpstreams: upstreams }, { merge: true });
+  };
+
   // click trash icon → open modal
   const handleDeleteClick = (roomId: string) => {
     setDeleteTarget(roomId);
@@ -280,20 +447,220 @@ export default function Admin({ user }: { user: User }) {
       <section>
         <h3>GAS Endpoints</h3>
         <ul>
-          {gasList.map((url, idx) => (
-            <li key={idx}>
-              <code>{url}</code>{" "}
-              <button onClick={() => removeEndpoint(idx)}>Remove</button>
-            </li>
-          ))}
+          {gasList.map((entry, idx) => {
+            const ep = parseEndpointEntry(entry);
+            const health = ep ? endpointHealth.find((h) => h.id === endpointId(ep)) : undefined;
+            return (
+              <li key={idx}>
+                <span style={{ display: 'inline-block', minWidth: 48, fontSize: '0.85em', color: '#666' }}>{ep?.type ?? '?'}</span>
+                <code>{ep ? describeEndpoint(ep) : String(entry)}</code>{" "}
+                {ep && !isClientEndpoint(ep) && (
+                  <span style={{ fontSize: '0.8em', color: '#c53030', marginRight: 8 }}>プロキシ経由のみ（未使用）</span>
+                )}
+                {health && (
+                  <span
+                    title={health.lastError ? `Last error: ${health.lastError}` : undefined}
+                    style={{ fontSize: '0.8em', color: CIRCUIT_COLORS[health.state], marginRight: 8 }}
+                  >
+                    ● {health.state}
+                    {health.successes + health.failures > 0 && ` · ${Math.round((1 - health.errorRate) * 100)}% ok`}
+                    {health.medianLatencyMs !== null && ` · ${Math.round(health.medianLatencyMs)} ms`}
+                  </span>
+                )}
+                <button onClick={() => removeEndpoint(idx)}>Remove</button>
+              </li>
+            );
+          })}
+        </ul>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+          <select value={newType} onChange={(e) => setNewType(e.target.value as ClientProviderType)}>
+            <option value="gas">GAS</option>
+            <option value="proxy">Bolcha proxy (Cloud Functions)</option>
+            <option value="mock">Mock (local test)</option>
+          </select>
+          <input
+            placeholder={newType === "gas" ? "https://script.google.com/..." : newType === "proxy" ? "https://<region>-<project>.cloudfunctions.net/translate" : "(URL not required)"}
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            style={{ width: "50%" }}
+          />
+          <button onClick={addEndpoint}>Add</button>
+        </div>
+      </section>
+
+      <section style={{ marginTop: 24, marginBottom: 24 }}>
+        <h3>Translation Glossary</h3>
+        <div style={{ fontSize: '0.9em', color: '#666', marginBottom: 8 }}>
+          登録した用語は翻訳APIに渡さず、指定した訳語に置き換えます。ルームを選ぶとそのルーム専用の設定（全体設定より優先）を編集できます。
+        </div>
+        <div style={{ marginBottom: 8 }}>
+          <select value={glossaryScope} onChange={(e) => setGlossaryScope(e.target.value)}>
+            <option value="">全体 (admin/config)</option>
+            {rooms.map((room) => (
+              <option key={room.id} value={room.id}>ルーム: {room.name || room.id}</option>
+            ))}
+          </select>
+        </div>
+        <table>
+          <thead>
+            <tr>
+              <th>From</th>
+              <th>To</th>
+              <th>Term</th>
+              <th>Translation</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {scopedGlossary.map((entry, idx) => (
+              <tr key={`${entry.sourceLang}-${entry.targetLang}-${entry.term}`}>
+                <td>{entry.sourceLang}</td>
+                <td>{entry.targetLang}</td>
+                <td><code>{entry.term}</code></td>
+                <td><code>{entry.translation}</code></td>
+                <td><button onClick={() => removeGlossaryEntry(idx)}>Remove</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
+          <input
+            placeholder="from (* = any)"
+            value={newGlossaryEntry.sourceLang}
+            onChange={(e) => setNewGlossaryEntry({ ...newGlossaryEntry, sourceLang: e.target.value })}
+            style={{ width: 90 }}
+          />
+          <input
+            placeholder="to (e.g. ja)"
+            value={newGlossaryEntry.targetLang}
+            onChange={(e) => setNewGlossaryEntry({ ...newGlossaryEntry, targetLang: e.target.value })}
+            style={{ width: 90 }}
+          />
+          <input
+            placeholder="Term"
+            value={newGlossaryEntry.term}
+            onChange={(e) => setNewGlossaryEntry({ ...newGlossaryEntry, term: e.target.value })}
+          />
+          <input
+            placeholder="Translation"
+            value={newGlossaryEntry.translation}
+            onChange={(e) => setNewGlossaryEntry({ ...newGlossaryEntry, translation: e.target.value })}
+          />
+          <button onClick={addGlossaryEntry}>Add</button>
+        </div>
+      </section>
+
+      <section style={{ marginTop: 24 }}>
+        <h3>Proxy Upstreams</h3>
+        <div style={{ fontSize: '0.9em', color: '#666', marginBottom: 8 }}>
+          Cloud Functions の翻訳プロキシ（translate）が上から順に使う翻訳API です。未設定の場合は環境変数 PROXY_UPSTREAMS / GAS_BASE_URL を使います。
+        </div>
+        <ul>
+          {proxyUpstreams.map((entry, idx) => {
+            const ep = parseEndpointEntry(entry);
+            return (
+              <li key={idx}>
+                <span style={{ display: 'inline-block', minWidth: 48, fontSize: '0.85em', color: '#666' }}>{ep?.type ?? '?'}</span>
+                <code>{ep ? describeEndpoint(ep) : String(entry)}</code>{" "}
+                <button onClick={() => removeUpstream(idx)}>Remove</button>
+              </li>
+            );
+          })}
         </ul>
-        <input
-          placeholder="https://script.google.com/..."
-          value={newUrl}
-          onChange={(e) => setNewUrl(e.target.value)}
-          style={{ width: "60%" }}
-        />
-        <button onClick={addEndpoint}>Add</button>
+        {needsKeyMigration && (
+          <div style={{ color: '#c53030', marginBottom: 8 }}>
+            API キーが admin/config に保存されているか、LibreTranslate / DeepL が GAS Endpoints に登録されています。キーをサーバー専用の保存先へ、LibreTranslate / DeepL をこの一覧へ移したあと、キーの再発行をおすすめします。
+            <button onClick={moveKeysToProxy} style={{ marginLeft: 8 }}>キーを移す</button>
+          </div>
+        )}
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <input
+            placeholder="https://script.google.com/...  /  libre:https://...  /  deepl:https://...  /  mock:"
+            value={newUpstream}
+            onChange={(e) => setNewUpstream(e.target.value)}
+            style={{ width: "60%" }}
+          />
+          <input
+            type="password"
+            autoComplete="off"
+            placeholder="API key (optional)"
+            value={newUpstreamKey}
+            onChange={(e) => setNewUpstreamKey(e.target.value)}
+            style={{ width: 160 }}
+          />
+          <button onClick={addUpstream}>Add</button>
+        </div>
+        <div style={{ fontSize: '0.85em', color: '#666', marginTop: 4 }}>
+          API キーはプロキシだけが読める場所に保存され、この画面にも表示されません。変更するときは上流を追加し直してください。
+        </div>
+      </section>
+
+      <section style={{ marginTop: 24, marginBottom: 24 }}>
+        <h3>Endpoint Health</h3>
+        <div style={{ fontSize: '0.9em', color: '#666', marginBottom: 8 }}>
+          成功率・レイテンシ・クォータ超過は全クライアントの直近{STATS_DAYS}日間の集計です。Circuit はこのブラウザでの状態です。
+          <button onClick={refreshEndpointStats} disabled={statsLoading} style={{ marginLeft: 8 }}>
+            {statsLoading ? '読み込み中…' : '更新'}
+          </button>
+        </div>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ borderBottom: "2px solid #ddd" }}>
+              <th style={{ textAlign: "left", padding: "6px 8px" }}>Endpoint</th>
+              <th style={{ textAlign: "left", padding: "6px 8px" }}>Circuit</th>
+              <th style={{ textAlign: "right", padding: "6px 8px" }}>Success</th>
+              <th style={{ textAlign: "right", padding: "6px 8px" }}>Median</th>
+              <th style={{ textAlign: "right", padding: "6px 8px" }}>Quota</th>
+              <th style={{ textAlign: "left", padding: "6px 8px" }}>Last error</th>
+              <th style={{ padding: "6px 8px" }}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {gasList.map((entry, idx) => {
+              const ep = parseEndpointEntry(entry);
+              if (!ep || !isClientEndpoint(ep)) return null;
+              const id = endpointId(ep);
+              const health = endpointHealth.find((h) => h.id === id);
+              const stats = endpointStats.find((s) => s.endpointId === id);
+              const total = stats ? stats.successes + stats.failures : 0;
+              const median = stats ? histogramMedian(stats.latency) : null;
+              const test = testResults[id];
+              return (
+                <tr key={idx} style={{ borderBottom: "1px solid #eee", verticalAlign: "top" }}>
+                  <td style={{ padding: "6px 8px" }}><code>{describeEndpoint(ep)}</code></td>
+                  <td style={{ padding: "6px 8px", color: CIRCUIT_COLORS[health?.state ?? "closed"] }}>
+                    ● {health?.state ?? "closed"}
+                  </td>
+                  <td style={{ padding: "6px 8px", textAlign: "right" }}>
+                    {total ? `${Math.round((stats!.successes / total) * 100)}% (${total})` : "-"}
+                  </td>
+                  <td style={{ padding: "6px 8px", textAlign: "right" }}>
+                    {median === null ? "-" : median === Infinity ? "> 8 s" : `≤ ${median} ms`}
+                  </td>
+                  <td style={{ padding: "6px 8px", textAlign: "right" }} title={stats?.lastQuotaAt ? `Last: ${stats.lastQuotaAt.toLocaleString()}` : undefined}>
+                    {stats?.quotaErrors ? <span style={{ color: '#e53e3e' }}>{stats.quotaErrors}</span> : 0}
+                  </td>
+                  <td style={{ padding: "6px 8px", fontSize: "0.85em" }}>
+                    {stats?.lastError ? (
+                      <>
+                        {stats.lastError}
+                        <div style={{ color: '#999' }}>{stats.lastErrorAt?.toLocaleString()}</div>
+                      </>
+                    ) : "-"}
+                  </td>
+                  <td style={{ padding: "6px 8px", whiteSpace: "nowrap" }}>
+                    <button onClick={() => testEndpoint(ep)} disabled={test === "running"}>Test</button>
+                    {test && test !== "running" && (
+                      <div style={{ fontSize: "0.8em", color: test.ok ? '#28a745' : '#e53e3e', maxWidth: 220, whiteSpace: "normal" }}>
+                        {test.ok ? "✓" : "✗"} {test.message} ({Math.round(test.ms)} ms)
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
       </section>
 
       <section>
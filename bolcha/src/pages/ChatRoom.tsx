@@ -1,11 +1,14 @@
 import * as React from 'react';
-import { useEffect, useState, useRef, useMemo, useLayoutEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useEffect, useState, useRef, useMemo, useLayoutEffect, useCallback } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
 import {
   collection,
   deleteDoc,
   addDoc,
+  getDocs,
   query,
+  where,
   orderBy,
   onSnapshot,
   serverTimestamp,
@@ -13,18 +16,27 @@ import {
   updateDoc,
   arrayUnion,
   arrayRemove,
+  writeBatch,
 } from "firebase/firestore";
 import { db, auth } from "../firebase";
 import { setDoc } from "firebase/firestore";
 import { signOut } from "firebase/auth";
 import useIsAdmin from "../hooks/useIsAdmin";
-import { detectLanguage } from "../langDetect";
+import { detectLanguage, detectLanguageSync, messageLanguages, sameLanguage } from "../langDetect";
 import { useI18n } from "../i18n";
 import { useUserPrefs } from "../hooks/useUserPrefs";
-import { translateText } from "../translation";
+import { translateMany } from "../translation";
+import { parseGlossary, setRoomGlossary } from "../glossary";
+import { CHAT_LANGUAGES, langLabel, languageChoices } from "../chatLanguages";
+import { usePagedMessages } from "../hooks/usePagedMessages";
+import { activeMentionQuery, findMentions, mentionHandle, mentionPattern } from "../mentions";
+import { formatMessage } from "../markdownLite";
+import type { MentionCandidate, MentionQuery } from "../mentions";
+import type { MessageSource } from "../hooks/usePagedMessages";
 
 import type { User } from "firebase/auth";
-import type { UserPreferences, Message } from "../types";
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+import type { UserPreferences, Message, MessageEdit } from "../types";
 import { doc as fbDoc, getDoc } from "firebase/firestore";
 import { debugAvatarIssues } from "../utils/avatarTest";
 
@@ -32,22 +44,103 @@ type Props = {
   user: User;
 };
 
-function LikeIcon({ filled }: { filled: boolean }) {
-  return (
-    <svg
-      width="16"
-      height="16"
-      viewBox="0 0 24 24"
-      fill={filled ? "#e0245e" : "none"}
-      stroke={filled ? "#e0245e" : "#666"}
-      strokeWidth="2"
-      strokeLinecap="round"
-      strokeLinejoin="round"
-      style={{ display: "inline-block", verticalAlign: "text-bottom" }}
-    >
-      <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41 0.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
-    </svg>
-  );
+// New messages are translated by the `translateOnCreate` Cloud Function into the room's
+// active languages; clients only fill in what is still missing after this long
+const SERVER_TRANSLATION_GRACE_MS = 15000;
+
+// Messages subscribed on open and loaded per scroll-up
+const MESSAGE_PAGE_SIZE = 50;
+const THREAD_PAGE_SIZE = 30;
+// How long a message opened by a permalink stays highlighted
+const HIGHLIGHT_MS = 2500;
+// Older messages are loaded when the reader is this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 200;
+
+// Only the rows in view (plus OVERSCAN_ROWS on each side) are mounted; rows are measured
+// once rendered, the estimate only places rows that have not been seen yet
+const ESTIMATED_ROW_HEIGHT = 72;
+const OVERSCAN_ROWS = 6;
+// Space kept below the last row for the fixed input bar (paddingBottom of the list)
+const INPUT_BAR_SPACE = 80;
+// Rows must stay in view this long before they are translated, so fast scrolling is free
+const VISIBLE_TRANSLATE_DELAY_MS = 150;
+const MAX_VISIBLE_TRANSLATIONS = 10; // messages per visible range, sent as one batch
+// Participants offered while typing an @mention
+const MAX_MENTION_SUGGESTIONS = 6;
+
+// True when a reader of `lang` who also understands `knownLangs` can read `m` as it is.
+// A mixed message (`langs`) is translated unless the reader knows every language in it;
+// runs already in the reading language are kept.
+function isInReaderLanguage(
+  m: Pick<Message, "originalLang" | "langs">,
+  lang: string,
+  knownLangs: string[] = []
+): boolean {
+  const langs = m.langs?.length ? m.langs : [m.originalLang];
+  return langs.every((l) => sameLanguage(l, lang) || knownLangs.some((k) => sameLanguage(l, k)));
+}
+
+// Messages of `shown` (in that order) a reader of `lang` cannot read yet, at most
+// MAX_VISIBLE_TRANSLATIONS; `skip` leaves out messages this client already handles
+function untranslated(
+  shown: Message[],
+  lang: string,
+  knownLangs: string[],
+  skip: (id: string) => boolean
+): Message[] {
+  return shown
+    .filter((m) =>
+      !skip(m.id) &&
+      !m.translations?.[lang] &&
+      !!m.originalLang &&
+      !isInReaderLanguage(m, lang, knownLangs)
+    )
+    .slice(0, MAX_VISIBLE_TRANSLATIONS);
+}
+
+// Thread replies stay out of the timeline unless sent to the room as well
+function isTimelineMessage(m: { threadId?: string; showInRoom?: boolean }): boolean {
+  return !m.threadId || !!m.showInRoom;
+}
+
+function toMessage(d: QueryDocumentSnapshot): Message {
+  const data = d.data();
+  return {
+    id: d.id,
+    text: data.text,
+    uid: data.uid,
+    createdAt: data.createdAt?.toDate?.() || new Date(),
+    readBy: data.readBy,
+    likes: data.likes,
+    reactions: data.reactions,
+    mentions: data.mentions,
+    replyTo: data.replyTo,
+    threadId: data.threadId ?? undefined,
+    showInRoom: data.showInRoom,
+    replyCount: data.replyCount,
+    originalLang: data.originalLang,
+    langs: data.langs,
+    translations: data.translations,
+    // pending server timestamp (own edit not written yet) is null
+    editedAt: data.editedAt !== undefined ? data.editedAt?.toDate?.() || new Date() : undefined,
+  };
+}
+
+// Emoji offered by the reaction picker, also the order of the chips under a message.
+// firestore.rules only accepts these keys in `reactions`; keep both lists in sync.
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🙏", "🎉", "👀"];
+// Hearts given before reactions existed are in `likes`
+const LEGACY_LIKE_EMOJI = "❤️";
+
+// Reactions of `m` in palette order without emptied lists, `likes` counted as hearts
+function reactionsOf(m: Message): [string, string[]][] {
+  return REACTION_EMOJIS
+    .map((emoji): [string, string[]] => {
+      const uids = m.reactions?.[emoji] ?? [];
+      const legacy = emoji === LEGACY_LIKE_EMOJI ? (m.likes ?? []).filter((uid) => !uids.includes(uid)) : [];
+      return [emoji, [...uids, ...legacy]];
+    })
+    .filter(([, uids]) => uids.length > 0);
 }
 
 function formatTime(date: Date, uiLang: string) {
@@ -105,6 +198,7 @@ function ChatRoom({ user }: Props) {
   const warningTimerRef = useRef<NodeJS.Timeout | null>(null);
   // presence管理用
   const [presenceCount, setPresenceCount] = useState(0);
+  const [presentUids, setPresentUids] = useState<string[]>([]); // can be mentioned like authors
   const presenceIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [enablePresenceCounter, setEnablePresenceCounter] = useState<boolean>(false);
 
@@ -114,7 +208,7 @@ function ChatRoom({ user }: Props) {
   const isAdmin = useIsAdmin(user);
   const { roomId } = useParams<{ roomId: string }>();
   // UI language from global context
-  const { lang: uiLang } = useI18n();
+  const { lang: uiLang, t } = useI18n();
 
   // プレゼンス設定の読み込み
   useEffect(() => {
@@ -167,14 +261,116 @@ function ChatRoom({ user }: Props) {
         return { uid: d.id, lastActive: t, delta: now - t };
       });
        
-      const count = debugList.filter(item => item.lastActive && (now - item.lastActive < 3 * 60 * 1000)).length;
+      const active = debugList.filter(item => item.lastActive && (now - item.lastActive < 3 * 60 * 1000));
        
-      setPresenceCount(count);
+      setPresenceCount(active.length);
+      setPresentUids(active.map(item => item.uid));
     });
     return unsub;
   }, [roomId, enablePresenceCounter]);
 
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Last visit of this room (`users/{uid}.lastSeenAt`); the room list counts mentions after it
+  useEffect(() => {
+    if (!roomId) return;
+    const markSeen = () => {
+      setDoc(doc(db, "users", user.uid), { lastSeenAt: { [roomId]: serverTimestamp() } }, { merge: true })
+        .catch(() => {});
+    };
+    markSeen();
+    return markSeen;
+  }, [roomId, user.uid]);
+
+  // Firestore: the room's messages, MESSAGE_PAGE_SIZE at a time (older pages on scroll-up)
+  // scroll height before older messages were prepended, to keep the viewport in place
+  const prependScrollRef = useRef<number | null>(null);
+  const roomSource = useMemo<MessageSource | null>(() => (roomId ? {
+    key: roomId,
+    build: (...constraints) => query(collection(db, "rooms", roomId, "messages"), ...constraints),
+    counts: (d) => isTimelineMessage(d.data()),
+  } : null), [roomId]);
+  const {
+    items: messages,
+    ready: messagesReady,
+    error: messagesError,
+    hasOlder,
+    loadingOlder,
+    loadOlder: loadOlderMessages,
+  } = usePagedMessages(roomSource, toMessage, MESSAGE_PAGE_SIZE, () => {
+    prependScrollRef.current = getScrollHeight();
+  });
+  const timeline = useMemo(() => messages.filter(isTimelineMessage), [messages]);
+
+  // Thread side panel: root message and its replies, paged independently of the timeline
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [threadRoot, setThreadRoot] = useState<Message | null>(null);
+  const threadPanelRef = useRef<HTMLDivElement | null>(null);
+  const threadPrependRef = useRef<number | null>(null);
+  const threadSource = useMemo<MessageSource | null>(() => (roomId && threadRootId ? {
+    key: `${roomId}/${threadRootId}`,
+    build: (...constraints) =>
+      query(collection(db, "rooms", roomId, "messages"), where("threadId", "==", threadRootId), ...constraints),
+  } : null), [roomId, threadRootId]);
+  const thread = usePagedMessages(threadSource, toMessage, THREAD_PAGE_SIZE, () => {
+    threadPrependRef.current = threadPanelRef.current?.scrollHeight ?? null;
+  });
+  useEffect(() => {
+    setThreadRoot(null);
+    if (!roomId || !threadRootId) return;
+    return onSnapshot(doc(db, "rooms", roomId, "messages", threadRootId), (snap) => {
+      setThreadRoot(snap.exists() ? toMessage(snap) : null);
+    });
+  }, [roomId, threadRootId]);
+  useEffect(() => {
+    setThreadRootId(null);
+  }, [roomId]);
+
+  // every message on screen (timeline and thread panel), for translations and lookups by id
+  const allMessages = useMemo(() => {
+    const byId = new Map<string, Message>();
+    [...messages, ...thread.items, ...(threadRoot ? [threadRoot] : [])].forEach((m) => byId.set(m.id, m));
+    return Array.from(byId.values());
+  }, [messages, thread.items, threadRoot]);
+  const messagesById = useMemo(() => new Map(allMessages.map((m) => [m.id, m])), [allMessages]);
+
+  // Permalinks: /rooms/:roomId?msg=<id> scrolls to the message and highlights it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const targetMsgId = searchParams.get("msg");
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const jumpedToRef = useRef<string | null>(null); // target already scrolled to
+  const jumpLoadedRef = useRef<string | null>(null); // history already loaded down to the target
+
+  const jumpToMessage = (id: string) => {
+    const index = timeline.findIndex((m) => m.id === id);
+    if (index >= 0) {
+      // already loaded (possibly the current target again): scroll right away
+      jumpedToRef.current = id;
+      virtualizer.scrollToIndex(index, { align: "center" });
+      setHighlightId(id);
+    } else {
+      jumpedToRef.current = null;
+      jumpLoadedRef.current = null;
+    }
+    setSearchParams({ msg: id }, { replace: true });
+  };
+
+  const copyMessageLink = async (m: Message) => {
+    const url = `${window.location.origin}/rooms/${roomId}?msg=${m.id}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(m.id);
+      setTimeout(() => setCopiedId((id) => (id === m.id ? null : id)), 1500);
+    } catch {
+      window.prompt(t('copyLink'), url);
+    }
+  };
+
+  useEffect(() => {
+    if (!highlightId) return;
+    const timer = setTimeout(() => setHighlightId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightId]);
+
   const [roomName, setRoomName] = useState<string>("");
   const [userPrefs, setUserPrefs] = useState<Record<string, UserPreferences>>({});
   const [deletedUsers, setDeletedUsers] = useState<Record<string, any>>({});
@@ -189,6 +385,14 @@ function ChatRoom({ user }: Props) {
     });
   }, [lang, user.uid]);
 
+  // announce this reader's language to the room so the server translates new messages into it
+  useEffect(() => {
+    if (!roomId || !CHAT_LANGUAGES.some(([code]) => code === lang)) return;
+    updateDoc(doc(db, "rooms", roomId), { [`activeLangs.${lang}`]: serverTimestamp() }).catch(() => {
+      /* room deleted or offline: not critical */
+    });
+  }, [roomId, lang]);
+
   // Sync localStorage changes for current user prefs (prevent infinite loop)
   useEffect(() => {
     const syncLocalStorage = () => {
@@ -211,22 +415,42 @@ function ChatRoom({ user }: Props) {
   }, [user.uid]); // Only depend on user.uid, not prefs to prevent loop
 
   // Derived state for translations using useMemo
+  // languages the reader understands besides `lang`: shown in the original, never translated
+  const knownLangs = useMemo(() => prefs.knownLangs ?? [], [prefs.knownLangs]);
   const translations = useMemo(() => {
     const currentTranslations: Record<string, string> = {};
-    messages.forEach(m => {
-      if (m.translations && m.translations[lang]) {
-        currentTranslations[m.id] = m.translations[lang];
-      } else if (m.originalLang === lang) {
+    allMessages.forEach(m => {
+      if (isInReaderLanguage(m, lang, knownLangs)) {
         currentTranslations[m.id] = m.text;
+      } else if (m.translations && m.translations[lang]) {
+        currentTranslations[m.id] = m.translations[lang];
       }
     });
     return currentTranslations;
-  }, [messages, lang]);
+  }, [allMessages, lang, knownLangs]);
   const [text, setText] = useState("");
+  // source language chosen by the sender on the chip; null = use the detected one
+  const [langOverride, setLangOverride] = useState<string | null>(null);
+  const detectedLang = useMemo(() => (text.trim() ? detectLanguageSync(text) : null), [text]);
   const inputRef = useRef<HTMLTextAreaElement | null>(null);
   // Refs for scrolling container and sentinel element at bottom
   const containerRef = useRef<HTMLDivElement | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  // the list scrolls with the window; rows are positioned relative to where it starts
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const [listOffset, setListOffset] = useState(0);
+  const messageCount = timeline.length;
+  const virtualizer = useWindowVirtualizer({
+    count: messageCount,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: OVERSCAN_ROWS,
+    scrollMargin: listOffset,
+    scrollPaddingEnd: INPUT_BAR_SPACE,
+    getItemKey: (index) => timeline[index]?.id ?? index,
+  });
+  const scrollToBottom = useCallback(() => {
+    if (messageCount) virtualizer.scrollToIndex(messageCount - 1, { align: "end" });
+  }, [virtualizer, messageCount]);
   const translatedIdsRef = useRef<Set<string>>(new Set());
   // Reset translated ID cache when language changes
   useEffect(() => {
@@ -235,10 +459,21 @@ function ChatRoom({ user }: Props) {
     );
   }, [lang]);
   
-  const saveTranslatedId = (id: string) => {
+  const saveTranslatedId = useCallback((id: string) => {
     translatedIdsRef.current.add(id);
     sessionStorage.setItem(`translated-${lang}`, JSON.stringify(Array.from(translatedIdsRef.current)));
+  }, [lang]);
+
+  // After the author corrected `originalLang` or edited the text the message has to be translated again
+  const forgetTranslatedId = (id: string) => {
+    translatedIdsRef.current.delete(id);
+    Object.keys(sessionStorage).filter((k) => k.startsWith("translated-")).forEach((k) => {
+      const ids: string[] = JSON.parse(sessionStorage.getItem(k) || '[]');
+      if (ids.includes(id)) sessionStorage.setItem(k, JSON.stringify(ids.filter((x) => x !== id)));
+    });
   };
+  // last seen `originalLang` and text per message, to notice corrections and edits by the author
+  const sourcesRef = useRef<Map<string, string>>(new Map());
 
   const translatingRef = useRef<Set<string>>(new Set());
 
@@ -248,8 +483,16 @@ function ChatRoom({ user }: Props) {
   // userHasScrolledUp は handleScroll とメッセージ更新後の isAtBottom() の結果で更新します。
 
   const [hoveredUser, setHoveredUser] = useState<string | null>(null);
+  // `${messageId} ${emoji}` of the reaction chip under the pointer (list of who reacted)
+  const [hoveredReaction, setHoveredReaction] = useState<string | null>(null);
+  const [reactionPickerId, setReactionPickerId] = useState<string | null>(null);
   const [replyTarget, setReplyTarget] = useState<Message | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<Message | null>(null);
+  // own message being edited in the input bar
+  const [editTarget, setEditTarget] = useState<Message | null>(null);
+  const [editHistory, setEditHistory] = useState<{ message: Message; edits: MessageEdit[] } | null>(null);
+  const [threadText, setThreadText] = useState("");
+  const [threadAlsoInRoom, setThreadAlsoInRoom] = useState(false);
   const l10n = {
     confirm: lang.startsWith("ja") ? "このメッセージを削除しますか？" : "Delete this message?",
     del: lang.startsWith("ja") ? "削除" : "Delete",
@@ -264,34 +507,19 @@ function ChatRoom({ user }: Props) {
 
   // Scroll-related state and refs have been temporarily removed for diagnostics.
 
-  // Firestore: subscribe to messages in real-time
+  // a corrected language or edited text has to be translated again
   useEffect(() => {
-    if (!roomId) return;
-    const q = query(
-      collection(db, "rooms", roomId, "messages"),
-      orderBy("createdAt", "asc")
-    );
-
-    const unsub = onSnapshot(q, (snap) => {
-      const msgs: Message[] = snap.docs.map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          text: data.text,
-          uid: data.uid,
-          createdAt: data.createdAt?.toDate?.() || new Date(),
-          readBy: data.readBy,
-          likes: data.likes,
-          replyTo: data.replyTo,
-          originalLang: data.originalLang,
-          translations: data.translations,
-        };
-      });
-      setMessages(msgs);
+    const known = sourcesRef.current;
+    allMessages.forEach((m) => {
+      const source = `${m.originalLang}\n${m.text}`;
+      if (known.has(m.id) && known.get(m.id) !== source) forgetTranslatedId(m.id);
+      known.set(m.id, source);
     });
-    return unsub;
-  }, [roomId]);
+  }, [allMessages]);
 
+  // the window scroll listener is registered once and calls the latest version
+  const loadOlderRef = useRef(loadOlderMessages);
+  loadOlderRef.current = loadOlderMessages;
 
   useEffect(() => {
     if (!roomId) return;
@@ -299,6 +527,7 @@ function ChatRoom({ user }: Props) {
       if (snap.exists()) {
         setRoomName(snap.data().name ?? "");
         const data = snap.data();
+        setRoomGlossary(roomId, parseGlossary(data.glossary));
         // Track lastActivityAt for warning
         if (data.lastActivityAt && typeof data.lastActivityAt.toDate === 'function') {
           setLastActivityAt(data.lastActivityAt.toDate());
@@ -335,22 +564,97 @@ const getBottomDistance = () => {
   // そうでない場合は window スクロール量で判定
   return document.documentElement.scrollHeight - window.scrollY - window.innerHeight;
 };
+const getScrollHeight = () => {
+  const el = containerRef.current;
+  if (el && el.scrollHeight > el.clientHeight) return el.scrollHeight;
+  return document.documentElement.scrollHeight;
+};
+const getTopDistance = () => {
+  const el = containerRef.current;
+  if (el && el.scrollHeight > el.clientHeight) return el.scrollTop;
+  return window.scrollY;
+};
 
-const prevMessageCount = useRef(messages.length);
+const prevMessageCount = useRef(timeline.length);
+
+// リスト上端の位置（警告バナーや「以前のメッセージ」ボタンで変わる）を仮想リストに伝える
+useLayoutEffect(() => {
+  const el = listRef.current;
+  if (el) setListOffset(el.getBoundingClientRect().top + window.scrollY);
+}, [autoDeleteWarning, hasOlder]);
 
 // 新着メッセージ時の自動スクロール判定
 useLayoutEffect(() => {
-  if (messages.length > prevMessageCount.current) {
+  // 過去ログを先頭に追加した場合は、増えた高さぶんずらして表示位置を保つ
+  if (prependScrollRef.current !== null) {
+    const delta = getScrollHeight() - prependScrollRef.current;
+    prependScrollRef.current = null;
+    const el = containerRef.current;
+    if (el && el.scrollHeight > el.clientHeight) el.scrollTop += delta;
+    else window.scrollBy(0, delta);
+  } else if (timeline.length > prevMessageCount.current) {
     const firstLoad = prevMessageCount.current === 0;
      
     if (firstLoad || !userHasScrolledUp) {
-      bottomRef.current?.scrollIntoView({ behavior: 'auto' });
+      scrollToBottom();
     }
   }
-  prevMessageCount.current = messages.length;
-}, [messages]);
+  prevMessageCount.current = timeline.length;
+}, [timeline, scrollToBottom]);
+
 
 
+// スレッドパネル：新しい返信で最下部へ、過去の返信を読み込んだときは表示位置を保つ
+const threadCountRef = useRef(0);
+useLayoutEffect(() => {
+  const el = threadPanelRef.current;
+  if (!el) {
+    threadCountRef.current = 0;
+    return;
+  }
+  if (threadPrependRef.current !== null) {
+    el.scrollTop += el.scrollHeight - threadPrependRef.current;
+    threadPrependRef.current = null;
+  } else if (thread.items.length > threadCountRef.current) {
+    el.scrollTop = el.scrollHeight;
+  }
+  threadCountRef.current = thread.items.length;
+}, [thread.items, threadRoot]);
+
+// パーマリンク：対象メッセージまで履歴を読み込み、スクロールして強調表示
+useEffect(() => {
+  if (!roomId || !targetMsgId || !messagesReady || jumpedToRef.current === targetMsgId) return;
+  const index = timeline.findIndex((m) => m.id === targetMsgId);
+  if (index >= 0) {
+    jumpedToRef.current = targetMsgId;
+    virtualizer.scrollToIndex(index, { align: "center" });
+    setHighlightId(targetMsgId);
+    return;
+  }
+  // スレッド内だけの返信はスレッドパネルで表示
+  const known = messagesById.get(targetMsgId);
+  if (known?.threadId && !known.showInRoom) {
+    jumpedToRef.current = targetMsgId;
+    setThreadRootId(known.threadId);
+    setHighlightId(targetMsgId);
+    return;
+  }
+  if (jumpLoadedRef.current === targetMsgId) return;
+  jumpLoadedRef.current = targetMsgId;
+  getDoc(doc(db, "rooms", roomId, "messages", targetMsgId)).then(async (snap: QueryDocumentSnapshot) => {
+    if (!snap.exists()) return; // deleted: stay at the latest messages
+    const target = toMessage(snap);
+    if (target.threadId && !target.showInRoom) {
+      jumpedToRef.current = targetMsgId;
+      setThreadRootId(target.threadId);
+      setHighlightId(targetMsgId);
+      return;
+    }
+    // everything down to the target, then one more page so it has some context above
+    await loadOlderRef.current(snap);
+    await loadOlderRef.current();
+  }).catch((err: unknown) => console.warn("could not load the linked message", err));
+}, [roomId, targetMsgId, messagesReady, timeline, messagesById, virtualizer]);
 
 // 部屋切り替え時は必ず最下部へ & 入力欄にフォーカス
 useEffect(() => {
@@ -368,6 +672,7 @@ const handleScroll = () => {
   const bottomDistance = getBottomDistance();
   const scrolledUp = bottomDistance > 40;
   setUserHasScrolledUp(scrolledUp);
+  if (getTopDistance() < LOAD_OLDER_THRESHOLD_PX) loadOlderRef.current();
 };
 
 // window scroll listener
@@ -415,7 +720,9 @@ useEffect(() => {
 
   // fetch missing user prefs when messages change
   useEffect(() => {
-    const missing = Array.from(new Set(messages.map(m => m.uid))).filter(uid => !(uid in userPrefs));
+    // authors, mentioned users and people in the room (mention autocomplete)
+    const uids = [...allMessages.flatMap(m => [m.uid, ...(m.mentions ?? [])]), ...presentUids];
+    const missing = Array.from(new Set(uids)).filter(uid => !(uid in userPrefs));
     if (missing.length === 0) return;
     
     if (DEBUG_AVATARS) console.log('Loading missing user preferences for:', missing);
@@ -477,7 +784,7 @@ useEffect(() => {
     };
     
     fetchAllMissing();
-  }, [messages, user.uid]); // Add user.uid to deps for consistency
+  }, [allMessages, presentUids, user.uid]); // Add user.uid to deps for consistency
 
   // Listen for userPrefsUpdated event from Profile page
   useEffect(() => {
@@ -524,237 +831,111 @@ useEffect(() => {
 
   /* ---------- Translation helpers ---------- */
   
-  /*  if (!roomId || !lang) return;
-    const container = containerRef.current;
-    if (!container) return; // require container
-    
-    const elements = Array.from(container.querySelectorAll('[data-msg-id]')) as HTMLElement[];
-    // iterate from newest (bottom) to oldest
-    elements.reverse();
-    let processed = 0;
-    const MAX_PER_CALL = 5;
-    const containerRect = container.getBoundingClientRect();
-    
-    elements.forEach((el) => {
-      if (processed >= MAX_PER_CALL) return;
-      const rect = el.getBoundingClientRect();
-      const visible = rect.bottom > containerRect.top && rect.top < containerRect.bottom;
-      
-      if (!visible) { return; }
-      const id = el.getAttribute('data-msg-id');
-      if (!id) return;
-      const msg = messages.find((m) => m.id === id);
-      if (!msg) return;
-
-      const { translations, originalLang } = msg;
-      if (translatedIdsRef.current.has(id)) return;
-      if (translatingRef.current.has(id)) return;
-      if (translations?.[lang]) return;
-      if (originalLang === lang) return;
-
-      (async () => {
-        try {
-          translatingRef.current.add(id);
-          processed++; // count before awaiting to enforce per-call limit
-          const translated = await translateText(msg.text, lang);
-          if (translated && translated !== msg.text) {
-            await updateDoc(doc(db, 'rooms', roomId!, 'messages', id), {
-              [`translations.${lang}`]: translated,
-            });
-            saveTranslatedId(id);
-          }
-        } catch (err) {
-        } finally {
-          translatingRef.current.delete(id);
-        }
-      })();
-    });*/
-    
-  // IntersectionObserver instance (persistent across language changes)
-  const observerRef = useRef<IntersectionObserver | null>(null);
-  
-  // Keep latest values accessible in observer callback (avoid stale closure)
-  const latestValuesRef = useRef({ messages, lang, roomId });
-  latestValuesRef.current = { messages, lang, roomId };
+  // Keep latest values accessible in timer callbacks (avoid stale closure)
+  const latestValuesRef = useRef({ messages: allMessages, lang, roomId, knownLangs });
+  latestValuesRef.current = { messages: allMessages, lang, roomId, knownLangs };
 
-  // Helper function to translate a single message
-  const translateMessage = async (messageId: string, messageText: string, toLang: string) => {
-    if (!roomId) return;
-    
-    try {
-      translatingRef.current.add(messageId);
-      const translated = await translateText(messageText, toLang);
-      if (translated && translated !== messageText) {
-        await updateDoc(doc(db, 'rooms', roomId, 'messages', messageId), {
-          [`translations.${toLang}`]: translated,
-        });
-        saveTranslatedId(messageId);
-      }
-    } catch (err) {
-    } finally {
-      translatingRef.current.delete(messageId);
-    }
-  };
-
-  // ----- IntersectionObserver initialization (only when room changes) -----
+  // Pending translations are cancelled when leaving the room or switching language
+  const translateAbortRef = useRef<AbortController>(new AbortController());
   useEffect(() => {
-    if (!roomId) return;
-    
-    const container = containerRef.current;
-    if (!container) return;
-    const MAX_IO_CALLS = 5;
-
-    const observer = new IntersectionObserver((entries) => {
-      let ioProcessed = 0;
-      entries.forEach((entry) => {
-        const el = entry.target as HTMLElement;
-        const id = el.getAttribute('data-msg-id');
-        
-        if (!entry.isIntersecting || ioProcessed >= MAX_IO_CALLS) return;
-        if (!id) return;
-        
-        // Use latest values to avoid stale closure
-        const { messages: currentMessages, lang: currentLang } = latestValuesRef.current;
-        const msg = currentMessages.find((m) => m.id === id);
-        if (!msg) return;
-        
-        const { originalLang, translations } = msg;
-        
-        if (translatedIdsRef.current.has(id)) return;
-        if (translatingRef.current.has(id)) return;
-        if (translations?.[currentLang]) return;
-        if (!originalLang || originalLang === currentLang) return;
+    const controller = new AbortController();
+    const translating = translatingRef.current;
+    translateAbortRef.current = controller;
+    return () => {
+      controller.abort();
+      translating.clear();
+    };
+  }, [roomId, lang]);
+
+  // Helper function to translate a set of messages; lines of all messages that share a
+  // source language are packed into as few endpoint calls as possible
+  const translateMessages = useCallback(async (msgs: Message[], toLang: string) => {
+    if (!roomId || !msgs.length) return;
+
+    // give the server a chance first; re-check fresh messages once the grace period is over
+    const now = Date.now();
+    const fresh = msgs.filter((m) => now - m.createdAt.getTime() < SERVER_TRANSLATION_GRACE_MS);
+    if (fresh.length) {
+      const signal = translateAbortRef.current.signal;
+      const newest = Math.max(...fresh.map((m) => m.createdAt.getTime()));
+      setTimeout(() => {
+        if (signal.aborted) return;
+        const { messages: current, lang: currentLang } = latestValuesRef.current;
+        if (currentLang !== toLang) return;
+        const stillMissing = current.filter((m) =>
+          fresh.some((f) => f.id === m.id) && !m.translations?.[toLang] && !translatingRef.current.has(m.id)
+        );
+        translateMessages(stillMissing, toLang);
+      }, newest + SERVER_TRANSLATION_GRACE_MS - now);
+      msgs = msgs.filter((m) => !fresh.includes(m));
+      if (!msgs.length) return;
+    }
 
-        ioProcessed++;
-        translateMessage(id, msg.text, currentLang);
-      });
-    }, {
-      root: null, // Use viewport instead of container
-      threshold: [0, 0.1, 0.5, 1.0], // Multiple thresholds for better detection
-      rootMargin: '50px', // Expand detection area
+    const groups = new Map<string, Message[]>();
+    msgs.forEach((m) => {
+      translatingRef.current.add(m.id);
+      // runs of mixed messages carry their own language, so the batch gets no source hint
+      const key = m.langs?.length ? '' : m.originalLang ?? '';
+      groups.set(key, [...(groups.get(key) ?? []), m]);
     });
 
-    observerRef.current = observer;
-
-    // Observe all current message elements - retry until elements are found
-    const observeElements = () => {
-      const els = Array.from(container.querySelectorAll('[data-msg-id]')) as HTMLElement[];
-      
-      if (els.length === 0) {
-        // Retry after a longer delay if no elements found
-        setTimeout(observeElements, 500);
-        return;
+    await Promise.all(Array.from(groups.entries()).map(async ([sourceLang, group]) => {
+      try {
+        // newest messages first
+        const translated = await translateMany(group.map((m) => m.text), toLang, {
+          priority: Math.max(...group.map((m) => m.createdAt.getTime())),
+          signal: translateAbortRef.current.signal,
+          sourceLang: sourceLang || undefined,
+          roomId,
+        });
+        await Promise.all(group.map(async (m, i) => {
+          const res = translated[i];
+          // edited or deleted while the translation was running
+          const current = latestValuesRef.current.messages.find((x) => x.id === m.id);
+          if (current?.text !== m.text) return;
+          if (res && res !== m.text) {
+            await updateDoc(doc(db, 'rooms', roomId, 'messages', m.id), {
+              [`translations.${toLang}`]: res,
+            });
+            saveTranslatedId(m.id);
+          }
+        }));
+      } catch (err) {
+      } finally {
+        group.forEach((m) => translatingRef.current.delete(m.id));
       }
-      
-      els.forEach((el) => {
-        observer.observe(el);
-      });
-    };
-    
-    // Start with initial delay, then retry if needed
-    const timer = setTimeout(observeElements, 300);
+    }));
+  }, [roomId, saveTranslatedId]);
 
-    return () => {
-      clearTimeout(timer);
-      observer.disconnect();
-      observerRef.current = null;
-    };
-  }, [roomId]); // Only depend on roomId, not on lang or messages
+  // translated earlier in this session or being translated right now
+  const isTranslatingOrDone = useCallback(
+    (id: string) => translatedIdsRef.current.has(id) || translatingRef.current.has(id),
+    []
+  );
 
-  // Track previous language to detect actual language changes
-  const prevLangRef = useRef(lang);
-  
-  // ----- Handle language changes: translate only currently visible messages -----
+  // ----- Translate the rows in view (visible range of the virtualizer) -----
+  // Covers scrolling, new messages, translations arriving and language changes alike:
+  // whatever is on screen and not readable yet is translated, newest first
+  const visibleStart = virtualizer.range?.startIndex ?? -1;
+  const visibleEnd = virtualizer.range?.endIndex ?? -1;
   useEffect(() => {
-    // Only execute when language actually changes (not on initial mount or message updates)
-    if (prevLangRef.current === lang) return;
-    prevLangRef.current = lang;
-    
-    if (!roomId || !lang) return;
-    
-    const container = containerRef.current;
-    if (!container) return;
-
-    // Add a small delay to ensure DOM is updated and messages are rendered
+    if (!roomId || !lang || visibleStart < 0) return;
     const timer = setTimeout(() => {
-      // Get current messages from latest ref to avoid stale state
-      const currentMessages = latestValuesRef.current.messages;
-      
-      if (currentMessages.length === 0) return;
-      
-      // Find currently visible message elements more precisely
-      const containerRect = container.getBoundingClientRect();
-      const containerTop = containerRect.top;
-      const containerBottom = containerRect.bottom;
-      
-      const allElements = Array.from(container.querySelectorAll('[data-msg-id]')) as HTMLElement[];
-      
-      const visibleElementsWithRect = allElements
-        .map((el) => {
-          const rect = el.getBoundingClientRect();
-          const isVisible = (
-            rect.bottom > containerTop + 10 && // Add small margin
-            rect.top < containerBottom - 10     // Add small margin
-          );
-          return { el, rect, isVisible };
-        })
-        .filter((item) => item.isVisible);
-
-      // Sort visible elements by their position: bottom to top (newer messages first)
-      visibleElementsWithRect.sort((a, b) => b.rect.top - a.rect.top);
-
-      // Translate visible messages that need translation, with rate limiting
-      let processed = 0;
-      const MAX_LANG_CHANGE_TRANSLATIONS = 10;
-
-      visibleElementsWithRect.forEach((item) => {
-        const el = item.el;
-        if (processed >= MAX_LANG_CHANGE_TRANSLATIONS) return;
-        
-        const id = el.getAttribute('data-msg-id');
-        if (!id) return;
-        
-        const msg = currentMessages.find((m) => m.id === id);
-        if (!msg) return;
-        
-        const { originalLang, translations } = msg;
-        if (translatedIdsRef.current.has(id)) return;
-        if (translatingRef.current.has(id)) return;
-        if (translations?.[lang]) return;
-        if (!originalLang || originalLang === lang) return;
-
-        processed++;
-        translateMessage(id, msg.text, lang);
-      });
-    }, 300); // Increase delay to ensure messages are rendered
-
+      const shown = timeline.slice(visibleStart, visibleEnd + 1).reverse();
+      translateMessages(untranslated(shown, lang, knownLangs, isTranslatingOrDone), lang);
+    }, VISIBLE_TRANSLATE_DELAY_MS);
     return () => clearTimeout(timer);
-  }, [lang]); // Only depend on lang, but use prevLangRef to detect actual changes
+  }, [roomId, lang, knownLangs, timeline, visibleStart, visibleEnd, translateMessages, isTranslatingOrDone]);
 
-  // ----- Handle new messages: add them to observer -----
+  // ----- Translate the open thread (root and loaded replies) -----
   useEffect(() => {
-    if (!observerRef.current) return;
-    
-    const container = containerRef.current;
-    if (!container) return;
-
-    if (messages.length === 0) return;
-
-    // Find message elements and add them to observer
+    if (!roomId || !lang || !threadRoot) return;
     const timer = setTimeout(() => {
-      const allElements = Array.from(container.querySelectorAll('[data-msg-id]')) as HTMLElement[];
-      
-      if (allElements.length === 0) return;
-      
-      allElements.forEach((el) => {
-        // IntersectionObserver will automatically handle new elements
-        // No need to check if already observing as observe() is idempotent
-        observerRef.current?.observe(el);
-      });
-    }, 100);
-
+      const shown = [threadRoot, ...thread.items].reverse();
+      translateMessages(untranslated(shown, lang, knownLangs, isTranslatingOrDone), lang);
+    }, VISIBLE_TRANSLATE_DELAY_MS);
     return () => clearTimeout(timer);
-  }, [messages]); // Trigger only when messages change
+  }, [roomId, lang, knownLangs, threadRoot, thread.items, translateMessages, isTranslatingOrDone]);
 
   // load / subscribe to user profiles referenced in messages
   /*useEffect(() => {
@@ -775,9 +956,6 @@ useEffect(() => {
     };
   }, [messages]); // Remove profiles from deps to prevent infinite loop*/
 
-  // helper: ensure 2-letter lowercase code
-  const normalizeLang = (c: string | undefined | null) => (c || 'en').slice(0, 2).toLowerCase();
-
   // helper: get display name (nickname > displayName > fallback)
   const getDisplayName = (uid: string, fallback: string = "(No name)") => {
     const isMe = uid === user.uid;
@@ -799,6 +977,38 @@ useEffect(() => {
     return fallback;
   };
 
+  // Who can be mentioned: everyone with a nickname among the loaded participants except me
+  const mentionCandidates = useMemo<MentionCandidate[]>(() =>
+    Object.entries(userPrefs)
+      .filter(([uid]) => uid !== user.uid && !deletedUsers[uid])
+      .map(([uid, p]) => ({ uid, handle: mentionHandle(p.nickname) }))
+      .filter((c) => c.handle),
+  [userPrefs, deletedUsers, user.uid]);
+
+  // @mention autocomplete of the input bar
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const mentionMatches = useMemo(() => {
+    if (!mentionQuery) return [];
+    const q = mentionQuery.query.toLowerCase();
+    const starts = mentionCandidates.filter((c) => c.handle.toLowerCase().startsWith(q));
+    const contains = mentionCandidates.filter((c) => !starts.includes(c) && c.handle.toLowerCase().includes(q));
+    return [...starts, ...contains].slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [mentionQuery, mentionCandidates]);
+
+  const insertMention = (c: MentionCandidate) => {
+    if (!mentionQuery) return;
+    const inserted = `@${c.handle} `;
+    const end = mentionQuery.start + 1 + mentionQuery.query.length;
+    setText(text.slice(0, mentionQuery.start) + inserted + text.slice(end));
+    setMentionQuery(null);
+    const caret = mentionQuery.start + inserted.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
   const sendMessage = async () => {
     if (!text.trim() || !roomId) return;
     
@@ -811,35 +1021,54 @@ useEffect(() => {
     }
     setReplyTarget(null);
     
-    const origLangRaw = await detectLanguage(trimmed);
-    const origLang = normalizeLang(origLangRaw);
+    const origLang = langOverride ?? await detectLanguage(trimmed);
+    // several languages in one message ("了解です, will do"); not when the sender chose one
+    const langs = langOverride ? [] : messageLanguages(trimmed);
+    setLangOverride(null);
+
+    if (editTarget) {
+      setEditTarget(null);
+      await saveEdit(editTarget, trimmed, origLang, langs);
+      return;
+    }
+    await postMessage(trimmed, origLang, langs, { replyTo: replyTarget?.id ?? null });
+  };
 
+  // Reply inside the open thread; it only shows up in the timeline when "also send to room" is on
+  const sendThreadReply = async () => {
+    const trimmed = threadText.trim();
+    if (!trimmed || !threadRootId) return;
+    setThreadText("");
+    await postMessage(trimmed, await detectLanguage(trimmed), messageLanguages(trimmed), {
+      replyTo: null,
+      threadId: threadRootId,
+      ...(threadAlsoInRoom ? { showInRoom: true } : {}),
+    });
+  };
+
+  // `extra`: reply / thread fields of the new message
+  const postMessage = async (trimmed: string, origLang: string, langs: string[], extra: Record<string, unknown>) => {
+    if (!roomId) return;
     const msgsRef = collection(db, "rooms", roomId, "messages");
+    const mentions = findMentions(trimmed, mentionCandidates);
     // prepare initial doc data
     const docData: any = {
-      replyTo: replyTarget?.id ?? null,
+      ...extra,
+      ...(mentions.length ? { mentions } : {}),
       text: trimmed,
       uid: user.uid,
       createdBy: user.uid, // Firestoreルール対応のため追加
       createdAt: serverTimestamp(),
       readBy: [user.uid],
       originalLang: origLang,
+      ...(langs.length > 1 ? { langs } : {}),
       translations: {},
     };
     
     // if same language, store translation stub to Firestore
-    if (origLang === lang) {
+    // (other languages are added by the translateOnCreate Cloud Function)
+    if (isInReaderLanguage({ originalLang: origLang, langs }, lang)) {
       docData.translations = { [lang]: trimmed };
-    } else {
-      // 設定言語と異なる場合、設定言語に翻訳
-      try {
-        const translated = await translateText(trimmed, lang);
-        if (translated && translated !== trimmed) {
-          docData.translations = { [lang]: translated };
-        }
-      } catch (error) {
-        // 翻訳に失敗しても投稿は続行
-      }
     }
     
     await addDoc(msgsRef, docData);
@@ -863,6 +1092,291 @@ useEffect(() => {
   };
 
 
+  // Author's correction of the source language: the old translations were made from the wrong
+  // language and are dropped; translateOnLangChange (Cloud Functions) translates again
+  const correctOriginalLang = async (m: Message, newLang: string) => {
+    if (!roomId || sameLanguage(m.originalLang, newLang)) return;
+    forgetTranslatedId(m.id);
+    try {
+      await updateDoc(doc(db, "rooms", roomId, "messages", m.id), {
+        originalLang: newLang,
+        ...(m.langs?.length ? { langs: [] } : {}), // the author says it is one language
+        translations: sameLanguage(newLang, lang) ? { [lang]: m.text } : {},
+      });
+    } catch (err) {
+      console.warn("could not change the message language", err);
+    }
+  };
+
+  // Message text (translated when available) with markdown-lite formatting, clickable URLs
+  // behind the warning dialog and highlighted @mentions (never translated, so they are found
+  // in translations too)
+  const renderMessageText = (m: Message) => {
+    const text = translations[m.id] !== undefined ? translations[m.id] : m.text;
+    const isDeletedUser = deletedUsers[m.uid];
+
+    // If user is deleted, render plain text without links
+    if (isDeletedUser) {
+      return <span>{text}</span>;
+    }
+
+    const myHandle = mentionHandle(prefs.nickname);
+    const mentionRe = mentionPattern((m.mentions ?? []).map((uid) => mentionHandle(getDisplayName(uid, ""))));
+    // plain text between the formatting markers: links and mentions
+    const renderText = (plain: string) => {
+      const parts: (string | React.ReactElement)[] = [];
+      let key = 0;
+      const pushText = (segment: string) => {
+        if (!mentionRe) {
+          parts.push(segment);
+          return;
+        }
+        let last = 0;
+        for (const mention of segment.matchAll(mentionRe)) {
+          const start = mention.index ?? 0;
+          if (start > last) parts.push(segment.slice(last, start));
+          const isMine = mention[0] === `@${myHandle}`;
+          parts.push(
+            <span
+              key={key++}
+              style={{
+                fontWeight: 600,
+                color: isMine ? undefined : '#0b5ed7',
+                background: isMine ? '#fff3cd' : undefined,
+                borderRadius: 4,
+              }}
+            >
+              {mention[0]}
+            </span>
+          );
+          last = start + mention[0].length;
+        }
+        if (last < segment.length) parts.push(segment.slice(last));
+      };
+
+      // Normal link processing for active users
+      const urlRegex = /(https?:\/\/[^\s]+)|(www\.[^\s]+)/gi;
+      let lastIndex = 0;
+      let match;
+      while ((match = urlRegex.exec(plain)) !== null) {
+        const url = match[0];
+        const start = match.index;
+        if (start > lastIndex) {
+          pushText(plain.slice(lastIndex, start));
+        }
+        const href = url.startsWith('http') ? url : `https://${url}`;
+        parts.push(
+          <a
+            key={key++}
+            href={href}
+            style={{ color: '#0b5ed7', textDecoration: 'underline', wordBreak: 'break-all' }}
+            onClick={e => {
+              e.preventDefault();
+              setPendingLink({ url: href, label: url });
+            }}
+          >
+            {url}
+          </a>
+        );
+        lastIndex = start + url.length;
+      }
+      if (lastIndex < plain.length) {
+        pushText(plain.slice(lastIndex));
+      }
+      return parts;
+    };
+    return formatMessage(text, renderText);
+  };
+
+  // Adds or removes the own reaction; one emoji per write, as the rules require
+  const toggleReaction = (m: Message, emoji: string) => {
+    setReactionPickerId(null);
+    if (!roomId) return;
+    const mine = (m.reactions?.[emoji] ?? []).includes(user.uid);
+    const legacyLike = emoji === LEGACY_LIKE_EMOJI && !mine && (m.likes ?? []).includes(user.uid);
+    updateDoc(
+      doc(db, "rooms", roomId, "messages", m.id),
+      legacyLike
+        ? { likes: arrayRemove(user.uid) }
+        : { [`reactions.${emoji}`]: mine ? arrayRemove(user.uid) : arrayUnion(user.uid) }
+    ).catch((err) => console.warn("could not update the reaction", err));
+  };
+
+  // Reaction picker, opened by the add-reaction button of the message
+  const renderReactionPicker = (m: Message) =>
+    reactionPickerId === m.id && (
+      <div
+        onClick={(e) => e.stopPropagation()}
+        onMouseLeave={() => setReactionPickerId(null)}
+        style={{
+          position: "absolute",
+          bottom: "100%",
+          right: 0,
+          zIndex: 100,
+          display: "flex",
+          gap: 2,
+          padding: "4px 6px",
+          background: "#fff",
+          border: "1px solid #ddd",
+          borderRadius: 16,
+          boxShadow: "0 2px 8px rgba(0,0,0,0.18)",
+        }}
+      >
+        {REACTION_EMOJIS.map((emoji) => (
+          <span
+            key={emoji}
+            onClick={() => toggleReaction(m, emoji)}
+            style={{ cursor: "pointer", fontSize: "1.2rem", padding: "0 2px" }}
+          >{emoji}</span>
+        ))}
+      </div>
+    );
+
+  // Chips with the count per emoji; hovering one lists who reacted, clicking toggles the own reaction
+  const renderReactions = (m: Message) => {
+    const reactions = reactionsOf(m);
+    if (!reactions.length) return null;
+    return (
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 4 }}>
+        {reactions.map(([emoji, uids]) => {
+          const mine = uids.includes(user.uid);
+          const key = `${m.id} ${emoji}`;
+          return (
+            <span
+              key={emoji}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleReaction(m, emoji);
+              }}
+              onMouseEnter={() => setHoveredReaction(key)}
+              onMouseLeave={() => setHoveredReaction(null)}
+              style={{
+                position: "relative",
+                cursor: "pointer",
+                fontSize: "0.8rem",
+                padding: "0 6px",
+                borderRadius: 10,
+                border: `1px solid ${mine ? "#0b5ed7" : "#ddd"}`,
+                background: mine ? "#e7f1ff" : "#fff",
+                color: "#555",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {emoji} {uids.length}
+              {hoveredReaction === key && (
+                <span style={{
+                  position: "absolute",
+                  bottom: "100%",
+                  left: 0,
+                  marginBottom: 4,
+                  background: "#222",
+                  color: "#fff",
+                  padding: "4px 10px",
+                  borderRadius: 8,
+                  fontSize: "0.85rem",
+                  zIndex: 100,
+                  whiteSpace: "pre",
+                  boxShadow: "0 2px 8px rgba(0,0,0,0.18)"
+                }}>
+                  {uids.map((uid) => getDisplayName(uid)).join("\n")}
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Compact row of the thread panel
+  const renderThreadMessage = (m: Message) => (
+    <div
+      key={m.id}
+      data-msg-id={m.id}
+      style={{ position: "relative", padding: "0.4rem", margin: "0 -0.4rem", borderRadius: 6, background: highlightId === m.id ? "#fff3cd" : undefined }}
+    >
+      <div style={{ fontSize: "0.75em", color: "#999" }}>
+        <span style={{ fontWeight: 600, color: "#555", marginRight: 6 }}>{getDisplayName(m.uid)}</span>
+        {formatTime(m.createdAt, uiLang)}
+        {m.editedAt && ` ${t('edited')}`}
+        <span
+          title={t('addReaction')}
+          onClick={() => setReactionPickerId(reactionPickerId === m.id ? null : m.id)}
+          style={{ cursor: "pointer", marginLeft: 6 }}
+        >☺︎</span>
+      </div>
+      {renderReactionPicker(m)}
+      <div style={{ fontSize: "0.95em", whiteSpace: "pre-wrap", wordBreak: "break-word" }}>{renderMessageText(m)}</div>
+      {prefs.showOriginal && translations[m.id] && translations[m.id] !== m.text && (
+        <div style={{ fontSize: "0.8em", color: "#666", whiteSpace: "pre-wrap" }}>{m.text}</div>
+      )}
+      {renderReactions(m)}
+    </div>
+  );
+
+  const startEdit = (m: Message) => {
+    setReplyTarget(null);
+    setLangOverride(null);
+    setEditTarget(m);
+    setText(m.text);
+    inputRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditTarget(null);
+    setText("");
+  };
+
+  // Author's edit: the previous version goes to the `edits` subcollection, the stale translations
+  // are dropped and translateOnLangChange (Cloud Functions) translates the new text
+  const saveEdit = async (m: Message, newText: string, newLang: string, langs: string[]) => {
+    if (!roomId || newText === m.text) return;
+    forgetTranslatedId(m.id);
+    const mentions = findMentions(newText, mentionCandidates);
+    const msgRef = doc(db, "rooms", roomId, "messages", m.id);
+    const batch = writeBatch(db);
+    batch.set(doc(collection(msgRef, "edits")), {
+      text: m.text,
+      originalLang: m.originalLang ?? null,
+      editedBy: user.uid,
+      editedAt: serverTimestamp(),
+    });
+    batch.update(msgRef, {
+      text: newText,
+      originalLang: newLang,
+      ...(langs.length > 1 ? { langs } : m.langs?.length ? { langs: [] } : {}),
+      ...(mentions.length || m.mentions?.length ? { mentions } : {}),
+      translations: isInReaderLanguage({ originalLang: newLang, langs }, lang) ? { [lang]: newText } : {},
+      editedAt: serverTimestamp(),
+    });
+    try {
+      await batch.commit();
+    } catch (err) {
+      console.warn("could not edit the message", err);
+    }
+  };
+
+  const showEditHistory = async (m: Message) => {
+    if (!roomId) return;
+    try {
+      const snap = await getDocs(
+        query(collection(db, "rooms", roomId, "messages", m.id, "edits"), orderBy("editedAt", "desc"))
+      );
+      const edits: MessageEdit[] = snap.docs.map((d: QueryDocumentSnapshot) => {
+        const data = d.data();
+        return {
+          id: d.id,
+          text: data.text,
+          originalLang: data.originalLang ?? undefined,
+          editedAt: data.editedAt?.toDate?.() || new Date(),
+        };
+      });
+      setEditHistory({ message: m, edits });
+    } catch (err) {
+      console.warn("could not load the edit history", err);
+    }
+  };
+
   return (
     <div style={{
       maxWidth: 1000,
@@ -937,15 +1451,8 @@ useEffect(() => {
           display: 'flex',
           alignItems: 'center'
         }}>
-          {[
-            ["en", "English"],
-            ["ja", "日本語"],
-            ["zh", "中文"],
-            ["ko", "한국어"],
-            ["es", "Español"],
-            ["fr", "Français"],
-          ].map(([code, label]) => (
-            <option key={code} value={code as string}>
+          {CHAT_LANGUAGES.map(([code, label]) => (
+            <option key={code} value={code}>
               {label}
             </option>
           ))}
@@ -957,13 +1464,39 @@ useEffect(() => {
         style={{ 
           overflowY: "auto", 
           padding: "0.5rem 0.25rem", 
-          paddingBottom: 80,
+          paddingBottom: INPUT_BAR_SPACE,
           position: "relative", 
           marginTop: autoDeleteWarning ? 100 : 95
         }}
       >
+        {messagesError && (
+          <div style={{ textAlign: "center", margin: "0.25rem 0 0.75rem", fontSize: "0.8rem", color: "#c53030" }}>
+            {t("messagesLoadFailed")}
+          </div>
+        )}
+        {hasOlder && (
+          <div style={{ textAlign: "center", margin: "0.25rem 0 0.75rem" }}>
+            <button
+              onClick={() => loadOlderMessages()}
+              disabled={loadingOlder}
+              style={{
+                background: "none",
+                border: "1px solid #ccc",
+                borderRadius: 12,
+                padding: "2px 12px",
+                fontSize: "0.8rem",
+                color: "#666",
+                cursor: loadingOlder ? "default" : "pointer",
+              }}
+            >
+              {loadingOlder ? t("loadingOlderMessages") : t("loadOlderMessages")}
+            </button>
+          </div>
+        )}
+        <div ref={listRef} style={{ position: "relative", height: virtualizer.getTotalSize() }}>
         {(() => {
-          return messages.map((m) => {
+          return virtualizer.getVirtualItems().map((row) => {
+          const m = timeline[row.index];
           const isMe = m.uid === user.uid;
           const isDeletedUser = deletedUsers[m.uid];
           
@@ -999,7 +1532,20 @@ useEffect(() => {
             : (isMe ? (prefs.textColor ?? "#000") : (userPrefs[m.uid]?.textColor ?? "#000"));
           return (
             <div
-              key={m.id}
+              key={row.key}
+              data-index={row.index}
+              ref={virtualizer.measureElement}
+              style={{
+                position: "absolute",
+                top: 0,
+                left: 0,
+                width: "100%",
+                // padding instead of margin: margins are not part of the measured height
+                padding: "0.25rem 0",
+                transform: `translateY(${row.start - virtualizer.options.scrollMargin}px)`,
+              }}
+            >
+            <div
               data-msg-id={m.id}
               onMouseEnter={() => setHoveredUser(m.id)}
               onMouseLeave={() => setHoveredUser(null)}
@@ -1008,7 +1554,6 @@ useEffect(() => {
                 display: "flex",
                 flexDirection: myDir,
                 alignItems: "flex-start",
-                margin: "0.25rem 0",
               }}
             >
 
@@ -1065,80 +1610,51 @@ useEffect(() => {
                   width: "fit-content",
                   whiteSpace: "pre-wrap",
                   wordBreak: "break-word",
-                  position: "relative"
+                  position: "relative",
+                  // target of a permalink / jump
+                  boxShadow: highlightId === m.id ? "0 0 0 3px #f0ad4e" : undefined,
+                  transition: "box-shadow 0.3s"
                 }}
               >
                 {/* Reply/quote block inside bubble */}
                 {m.replyTo && (() => {
-                  const quoted = messages.find(msg => msg.id === m.replyTo);
-                  if (!quoted) return null;
-                  const quotedName = getDisplayName(quoted.uid);
-                  const quotedText = translations[quoted.id] !== undefined ? translations[quoted.id] : quoted.text;
+                  const replyTo = m.replyTo;
+                  // not loaded yet (older than the loaded history): a link to it is all we can show
+                  const quoted = messagesById.get(replyTo);
+                  const quotedName = quoted ? getDisplayName(quoted.uid) : null;
+                  const quotedText = !quoted ? t('originalMessage') : translations[quoted.id] !== undefined ? translations[quoted.id] : quoted.text;
                   return (
-                    <div style={{
-                      background: 'transparent',
-                      borderLeft: '3px solid #bbb',
-                      padding: '0.18rem 0.6rem',
-                      marginBottom: 4,
-                      fontSize: '0.85em',
-                      color: '#555',
-                      borderRadius: 0,
-                      opacity: 1
-                    }}>
-                      <span style={{ fontWeight: 600, marginRight: 6 }}>{quotedName}:</span>
+                    <div
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        jumpToMessage(replyTo);
+                      }}
+                      style={{
+                        background: 'transparent',
+                        borderLeft: '3px solid #bbb',
+                        padding: '0.18rem 0.6rem',
+                        marginBottom: 4,
+                        fontSize: '0.85em',
+                        color: '#555',
+                        borderRadius: 0,
+                        opacity: 1,
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {quotedName && <span style={{ fontWeight: 600, marginRight: 6 }}>{quotedName}:</span>}
                       <span style={{ color: '#444' }}>{quotedText.length > 60 ? quotedText.slice(0, 60) + "…" : quotedText}</span>
                     </div>
                   );
                 })()}
 
                 {/* Render message text with clickable URLs and warning dialog */}
-                {(() => {
-                  const text = translations[m.id] !== undefined ? translations[m.id] : m.text;
-                  const isDeletedUser = deletedUsers[m.uid];
-                  
-                  // If user is deleted, render plain text without links
-                  if (isDeletedUser) {
-                    return <span>{text}</span>;
-                  }
-                  
-                  // Normal link processing for active users
-                  const urlRegex = /(https?:\/\/[^\s]+)|(www\.[^\s]+)/gi;
-                  const parts: (string | React.ReactElement)[] = [];
-                  let lastIndex = 0;
-                  let match;
-                  let key = 0;
-                  while ((match = urlRegex.exec(text)) !== null) {
-                    const url = match[0];
-                    const start = match.index;
-                    if (start > lastIndex) {
-                      parts.push(text.slice(lastIndex, start));
-                    }
-                    const href = url.startsWith('http') ? url : `https://${url}`;
-                    parts.push(
-                      <a
-                        key={key++}
-                        href={href}
-                        style={{ color: '#0b5ed7', textDecoration: 'underline', wordBreak: 'break-all' }}
-                        onClick={e => {
-                          e.preventDefault();
-                          setPendingLink({ url: href, label: url });
-                        }}
-                      >
-                        {url}
-                      </a>
-                    );
-                    lastIndex = start + url.length;
-                  }
-                  if (lastIndex < text.length) {
-                    parts.push(text.slice(lastIndex));
-                  }
-                  return parts;
-                })()}
+                {renderMessageText(m)}
 
                 {/* reply button */}
                 <span
                   onClick={(e) => {
                     e.stopPropagation();
+                    if (editTarget) cancelEdit();
                     setReplyTarget(m);
                   }}
                   style={{
@@ -1153,6 +1669,31 @@ useEffect(() => {
                 {prefs.showOriginal && translations[m.id] && translations[m.id] !== m.text && (
                   <div style={{ fontSize: "0.8em", color: "#666", whiteSpace: "pre-wrap" }}>{m.text}</div>
                 )}
+                {/* thread: reply count on the root, link back to the root on replies sent to the room */}
+                {!m.threadId && !!m.replyCount && (
+                  <div
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setThreadRootId(m.id);
+                    }}
+                    style={{ fontSize: "0.8em", color: "#0b5ed7", cursor: "pointer", marginTop: 2 }}
+                  >
+                    💬 {m.replyCount} {m.replyCount === 1 ? t('threadReply') : t('threadReplies')}
+                  </div>
+                )}
+                {m.threadId && (
+                  <div
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setThreadRootId(m.threadId ?? null);
+                    }}
+                    style={{ fontSize: "0.8em", color: "#0b5ed7", cursor: "pointer", marginTop: 2 }}
+                  >
+                    ↳ {t('inThread')}
+                  </div>
+                )}
+                {renderReactions(m)}
+                {renderReactionPicker(m)}
                 <div
                   style={{
                     fontSize: "0.7em",
@@ -1164,35 +1705,74 @@ useEffect(() => {
                     gap: "4px",
                   }}
                 >
-                  {/* like button */}
+                  {/* add reaction */}
                   <span
+                    title={t('addReaction')}
                     onClick={(e) => {
                       e.stopPropagation();
-                      if (!roomId) return;
-
-                      const liked = (m.likes ?? []).includes(user.uid);
-                      updateDoc(doc(db, "rooms", roomId, "messages", m.id), {
-                        likes: liked ? arrayRemove(user.uid) : arrayUnion(user.uid),
-                      }).catch(err => {
-                      });
+                      setReactionPickerId(reactionPickerId === m.id ? null : m.id);
                     }}
                     style={{
                       cursor: "pointer",
                       fontSize: "0.9em",
-                      color: (m.likes ?? []).includes(user.uid) ? "#e0245e" : "#888",
-                      opacity: (m.likes && m.likes.length > 0) || hoveredUser === m.id ? 1 : 0,
-                      pointerEvents: "auto",
+                      opacity: hoveredUser === m.id || reactionPickerId === m.id ? 1 : 0,
                       transition: "opacity 0.2s",
-                      display: "flex",
-                      alignItems: "center",
-                      gap: "2px",
                     }}
-                  >
-                    <LikeIcon filled={(m.likes ?? []).includes(user.uid)} />
-                    {m.likes && m.likes.length > 0 && (
-                      <span style={{ fontSize: "0.8em", color: "#555" }}>{m.likes.length}</span>
-                    )}
-                  </span>
+                  >☺︎</span>
+                  {/* source language; the author can correct it */}
+                  {isMe && m.originalLang && (
+                    <select
+                      value={m.originalLang}
+                      title={t('correctSourceLang')}
+                      onChange={(e) => correctOriginalLang(m, e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      style={{
+                        fontSize: "0.9em",
+                        color: "#888",
+                        background: "transparent",
+                        border: "none",
+                        padding: 0,
+                        cursor: "pointer",
+                        opacity: hoveredUser === m.id ? 1 : 0,
+                        transition: "opacity 0.2s",
+                      }}
+                    >
+                      {languageChoices(m.originalLang).map(([code, label]) => (
+                        <option key={code} value={code}>{label}</option>
+                      ))}
+                    </select>
+                  )}
+                  {/* copy permalink */}
+                  <span
+                    title={t('copyLink')}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      copyMessageLink(m);
+                    }}
+                    style={{ cursor: "pointer", fontSize: "0.9em", opacity: hoveredUser === m.id || copiedId === m.id ? 1 : 0 }}
+                  >{copiedId === m.id ? "✔" : "🔗"}</span>
+                  {/* reply in thread */}
+                  {!m.threadId && (
+                    <span
+                      title={t('replyInThread')}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setThreadRootId(m.id);
+                      }}
+                      style={{ cursor: "pointer", fontSize: "0.9em", opacity: hoveredUser === m.id ? 1 : 0 }}
+                    >🧵</span>
+                  )}
+                  {/* edit button */}
+                  {isMe && (
+                    <span
+                      title={t('editMessage')}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startEdit(m);
+                      }}
+                      style={{ cursor: "pointer", fontSize: "0.9em", opacity: hoveredUser === m.id ? 1 : 0 }}
+                    >✏️</span>
+                  )}
                   {/* delete button */}
                   {(isAdmin || isMe) && (
                     <span
@@ -1204,6 +1784,18 @@ useEffect(() => {
                       style={{ cursor: "pointer", fontSize: "0.9em", opacity: hoveredUser === m.id ? 1 : 0 }}
                     >🗑️</span>
                   )}
+                  {m.editedAt && (
+                    <span
+                      title={`${t('editHistory')} (${formatTime(m.editedAt, uiLang)})`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        showEditHistory(m);
+                      }}
+                      style={{ cursor: "pointer" }}
+                    >
+                      {t('edited')}
+                    </span>
+                  )}
                   <span>
                     {formatTime(m.createdAt, uiLang)}
                     {isMe && (
@@ -1215,9 +1807,11 @@ useEffect(() => {
                 </div>
               </span>
             </div>
+            </div>
           );
           });
         })()}
+        </div>
         <div ref={bottomRef} />
       </div>
       {confirmDelete && (
@@ -1227,10 +1821,19 @@ useEffect(() => {
             <p style={{ fontSize: "0.9em", color: "#555", whiteSpace: "pre-wrap" }}>
               {confirmDelete.text.length > 60 ? confirmDelete.text.slice(0, 60) + "…" : confirmDelete.text}
             </p>
+            {!confirmDelete.threadId && !!confirmDelete.replyCount && (
+              <p style={{ fontSize: "0.85em", color: "#c53030" }}>{t('threadDeleteNote')}</p>
+            )}
             <div style={{ marginTop: "1rem", display: "flex", justifyContent: "center", gap: "1rem" }}>
               <button onClick={async () => {
                 if (!roomId || !confirmDelete) return;
-                await deleteDoc(doc(db, "rooms", roomId, "messages", confirmDelete.id));
+                const msgRef = doc(db, "rooms", roomId, "messages", confirmDelete.id);
+                // edit history first: its rules look up the author on the message
+                if (confirmDelete.editedAt) {
+                  const edits = await getDocs(collection(msgRef, "edits"));
+                  await Promise.all(edits.docs.map((d: QueryDocumentSnapshot) => deleteDoc(d.ref)));
+                }
+                await deleteDoc(msgRef);
                 setConfirmDelete(null);
               }}>{l10n.del}</button>
               <button onClick={() => setConfirmDelete(null)}>{l10n.cancel}</button>
@@ -1284,6 +1887,127 @@ useEffect(() => {
           </div>
         </div>
       )}
+      {threadRootId && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          right: 0,
+          bottom: 0,
+          width: "min(380px, 100%)",
+          background: "#fff",
+          boxShadow: "-2px 0 8px rgba(0,0,0,0.15)",
+          zIndex: 1000,
+          display: "flex",
+          flexDirection: "column",
+        }}>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: "0.75rem 1rem", borderBottom: "1px solid #eee", fontWeight: 700 }}>
+            {t('thread')}
+            <button
+              onClick={() => setThreadRootId(null)}
+              style={{ background: "none", border: "none", fontSize: "1.2em", cursor: "pointer" }}
+            >×</button>
+          </div>
+          <div
+            ref={threadPanelRef}
+            onScroll={(e) => {
+              if (e.currentTarget.scrollTop < LOAD_OLDER_THRESHOLD_PX) thread.loadOlder();
+            }}
+            style={{ flex: 1, overflowY: "auto", padding: "0.5rem 1rem" }}
+          >
+            {threadRoot && renderThreadMessage(threadRoot)}
+            <div style={{ borderTop: "1px solid #eee", margin: "0.5rem 0", paddingTop: 4, fontSize: "0.75em", color: "#999" }}>
+              {threadRoot?.replyCount ?? thread.items.length} {threadRoot?.replyCount === 1 ? t('threadReply') : t('threadReplies')}
+            </div>
+            {thread.error && (
+              <div style={{ textAlign: "center", marginBottom: "0.5rem", fontSize: "0.8rem", color: "#c53030" }}>
+                {t("messagesLoadFailed")}
+              </div>
+            )}
+            {thread.hasOlder && (
+              <div style={{ textAlign: "center", marginBottom: "0.5rem" }}>
+                <button
+                  onClick={() => thread.loadOlder()}
+                  disabled={thread.loadingOlder}
+                  style={{ background: "none", border: "1px solid #ccc", borderRadius: 12, padding: "2px 12px", fontSize: "0.8rem", color: "#666" }}
+                >
+                  {thread.loadingOlder ? t("loadingOlderMessages") : t("loadOlderMessages")}
+                </button>
+              </div>
+            )}
+            {thread.items.map(renderThreadMessage)}
+          </div>
+          <div style={{ borderTop: "1px solid #eee", padding: "0.5rem 1rem" }}>
+            <textarea
+              value={threadText}
+              rows={2}
+              placeholder={t('threadPlaceholder')}
+              onChange={(e) => setThreadText(e.target.value)}
+              onKeyDown={(e) => {
+                // same keys as the main input
+                if (e.key === "Enter" && (prefs.enterToSend ? !e.shiftKey : e.shiftKey)) {
+                  e.preventDefault();
+                  sendThreadReply();
+                }
+              }}
+              style={{ width: "100%", boxSizing: "border-box", resize: "none", borderRadius: 8, border: "1px solid #ccc", padding: "0.4rem", fontSize: "0.95rem" }}
+            />
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginTop: 4 }}>
+              <label style={{ fontSize: "0.8em", color: "#555", display: "flex", alignItems: "center", gap: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={threadAlsoInRoom}
+                  onChange={(e) => setThreadAlsoInRoom(e.target.checked)}
+                />
+                {t('alsoSendToRoom')}
+              </label>
+              <button
+                onClick={sendThreadReply}
+                style={{ background: "none", border: "none", cursor: "pointer", padding: 0 }}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="#0b5ed7" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M2 21l21-9L2 3v7l15 2-15 2v7z" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {editHistory && (
+        <div
+          onClick={() => setEditHistory(null)}
+          style={{ position: "fixed", top: 0, left: 0, width: "100%", height: "100%", background: "rgba(0,0,0,0.5)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 1000 }}
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            style={{ background: "#fff", padding: "1rem 1.5rem", borderRadius: 8, maxWidth: 420, width: "90%", maxHeight: "70vh", overflowY: "auto" }}
+          >
+            <p style={{ fontWeight: 700, marginTop: 0 }}>{t('editHistory')}</p>
+            {[
+              { id: "current", text: editHistory.message.text, label: `${t('editHistoryCurrent')} · ${formatTime(editHistory.message.editedAt ?? editHistory.message.createdAt, uiLang)}` },
+              // a stored version dates from the edit before it (the oldest one from the message itself)
+              ...editHistory.edits.map((e, i) => ({
+                id: e.id,
+                text: e.text,
+                label: formatTime(editHistory.edits[i + 1]?.editedAt ?? editHistory.message.createdAt, uiLang),
+              })),
+            ].map((v) => (
+              <div key={v.id} style={{ borderTop: "1px solid #eee", padding: "0.5rem 0" }}>
+                <div style={{ fontSize: "0.75em", color: "#999" }}>{v.label}</div>
+                <div style={{ fontSize: "0.9em", whiteSpace: "pre-wrap", wordBreak: "break-word" }}>{v.text}</div>
+              </div>
+            ))}
+            <div style={{ textAlign: "center", marginTop: "0.5rem" }}>
+              <button onClick={() => setEditHistory(null)}>{t('close')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+      {editTarget && (
+        <div style={{ padding: "0.25rem 0.5rem", background: "#fff8e1", borderLeft: "3px solid #f0ad4e", fontSize: "0.8em" }}>
+          {t('editingMessage')} {editTarget.text.slice(0, 40)}{editTarget.text.length > 40 ? "…" : ""}
+          <button style={{ marginLeft: 8 }} onClick={cancelEdit}>×</button>
+        </div>
+      )}
       {replyTarget && (
         <div style={{ padding: "0.25rem 0.5rem", background: "#f1f1f1", borderLeft: "3px solid #999", fontSize: "0.8em" }}>
           Replying to: {replyTarget.text.slice(0, 40)}{replyTarget.text.length > 40 ? "…" : ""}
@@ -1303,6 +2027,64 @@ useEffect(() => {
         zIndex: 99,
         boxShadow: "0 -2px 1px rgba(0,0,0,0.06)"
       }}>
+        {/* @mention suggestions */}
+        {mentionMatches.length > 0 && (
+          <div style={{
+            position: "absolute",
+            bottom: "100%",
+            left: "1rem",
+            minWidth: 160,
+            background: "#fff",
+            border: "1px solid #ddd",
+            borderRadius: 8,
+            boxShadow: "0 2px 8px rgba(0,0,0,0.18)",
+            overflow: "hidden",
+          }}>
+            {mentionMatches.map((c, i) => (
+              <div
+                key={c.uid}
+                // mousedown keeps the focus (and the caret) in the textarea
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(c);
+                }}
+                style={{
+                  padding: "4px 12px",
+                  fontSize: "0.9rem",
+                  cursor: "pointer",
+                  background: i === Math.min(mentionIndex, mentionMatches.length - 1) ? "#e7f1ff" : undefined,
+                }}
+              >
+                @{c.handle}
+              </div>
+            ))}
+          </div>
+        )}
+        {/* source language chip: shows the detected language, can be overridden before sending */}
+        <select
+          value={langOverride ?? ""}
+          title={t('sourceLangHint')}
+          onChange={(e) => setLangOverride(e.target.value || null)}
+          style={{
+            alignSelf: "center",
+            marginLeft: "1rem",
+            height: 28,
+            maxWidth: 120,
+            borderRadius: 14,
+            border: langOverride ? "1px solid #0b5ed7" : "1px solid #ccc",
+            background: langOverride ? "#e7f0ff" : "#fff",
+            color: langOverride ? "#0b5ed7" : "#666",
+            fontSize: "0.75rem",
+            padding: "0 6px",
+          }}
+        >
+          <option value="">
+            {detectedLang ? `${t('sourceLangAuto')}: ${langLabel(detectedLang)}` : t('sourceLangAuto')}
+          </option>
+          {languageChoices(langOverride ?? undefined).map(([code, label]) => (
+            <option key={code} value={code}>{label}</option>
+          ))}
+        </select>
         <textarea
            ref={inputRef}
            style={{
@@ -1313,7 +2095,7 @@ useEffect(() => {
              border: "1px solid #ccc",
              borderRadius: "20px",
              padding: "8px 12px",
-             margin: "0 1rem",
+             margin: "0 1rem 0 0",
              lineHeight: 1.5,
              fontSize: "0.9rem",
              outline: "none",
@@ -1323,7 +2105,12 @@ useEffect(() => {
            rows={1}
            placeholder="Message"
            value={text}
-           onChange={e => setText(e.target.value)}
+           onChange={e => {
+             setText(e.target.value);
+             setMentionIndex(0);
+           }}
+           // caret moves (typing, clicks, arrow keys) open or close the mention suggestions
+           onSelect={e => setMentionQuery(activeMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart ?? 0))}
            onInput={e => {
              const el = e.currentTarget;
              // Only auto-resize if there is a line break (multi-line input)
@@ -1335,6 +2122,23 @@ useEffect(() => {
              }
            }}
            onKeyDown={e => {
+             if (mentionMatches.length > 0 && !e.nativeEvent.isComposing) {
+               if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                 e.preventDefault();
+                 const step = e.key === "ArrowDown" ? 1 : mentionMatches.length - 1;
+                 setMentionIndex((i) => (i + step) % mentionMatches.length);
+                 return;
+               }
+               if (e.key === "Enter" || e.key === "Tab") {
+                 e.preventDefault();
+                 insertMention(mentionMatches[Math.min(mentionIndex, mentionMatches.length - 1)]);
+                 return;
+               }
+               if (e.key === "Escape") {
+                 setMentionQuery(null);
+                 return;
+               }
+             }
              if (e.key === "Enter") {
                if (prefs.enterToSend) {
                  // enterToSend が true の場合：Enterで送信、Shift+Enterで改行
@@ -1370,7 +2174,7 @@ useEffect(() => {
       {userHasScrolledUp && (
         <button
           onClick={() => {
-            bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+            scrollToBottom();
             setUserHasScrolledUp(false); // Reset the flag after clicking
           }}
           style={{
@@ -20,6 +20,11 @@ import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { db, storage } from "../firebase";
 import type { User } from "firebase/auth";
 import type { UserPreferences } from "../types";
+import ConfirmModal from "../components/ConfirmModal";
+import { getTranslationCacheStats, clearTranslationCache } from "../translationCache";
+import type { TranslationCacheStats } from "../translationCache";
+import { CHAT_LANGUAGES } from "../chatLanguages";
+import { canonicalLang } from "../langDetect";
 
 interface Props {
   user: User;
@@ -42,6 +47,21 @@ export default function Profile({ user, onSaved }: Props) {
   const [saving, setSaving] = useState(false);
   const [showNicknameWarning, setShowNicknameWarning] = useState(false);
   const [selectedImageFile, setSelectedImageFile] = useState<File | null>(null);
+  const [cacheStats, setCacheStats] = useState<TranslationCacheStats | null>(null);
+  const [confirmClearCache, setConfirmClearCache] = useState(false);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  useEffect(() => {
+    getTranslationCacheStats().then(setCacheStats).catch(() => setCacheStats(null));
+  }, []);
+
+  const handleClearCache = async () => {
+    setConfirmClearCache(false);
+    await clearTranslationCache();
+    setCacheStats(await getTranslationCacheStats());
+    setCacheCleared(true);
+    setTimeout(() => setCacheCleared(false), 1800);
+  };
 
   useEffect(() => {
     const load = async () => {
@@ -61,7 +81,9 @@ export default function Profile({ user, onSaved }: Props) {
         }
         
         // 両方をマージして設定
-        setPrefs({ ...defaultPrefs, ...privateData, ...publicData } as UserPreferences);
+        const merged = { ...defaultPrefs, ...privateData, ...publicData } as UserPreferences;
+        if (merged.knownLangs) merged.knownLangs = merged.knownLangs.map(canonicalLang);
+        setPrefs(merged);
       } catch (error) {
         console.error("Error loading user preferences:", error);
       }
@@ -115,6 +137,8 @@ export default function Profile({ user, onSaved }: Props) {
     if (updatedPrefs.side) {
       privateData.side = updatedPrefs.side;
     }
+    // always written so that unticking every language clears the list
+    privateData.knownLangs = updatedPrefs.knownLangs ?? [];
     
     await setDoc(doc(db, "users", user.uid), privateData, { merge: true });
     
@@ -339,6 +363,31 @@ export default function Profile({ user, onSaved }: Props) {
         </label>
       </div>
 
+      <div style={{ marginBottom: "1rem" }}>
+        <label>{t("knownLangs")}</label>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.25rem 1rem", marginTop: "0.25rem" }}>
+          {CHAT_LANGUAGES.map(([code, label]) => (
+            <label key={code}>
+              <input
+                type="checkbox"
+                checked={prefs.knownLangs?.includes(code) ?? false}
+                onChange={(e) => {
+                  const checked = e.target.checked;
+                  setPrefs((p) => {
+                    const rest = (p.knownLangs ?? []).filter((c) => c !== code);
+                    return { ...p, knownLangs: checked ? [...rest, code] : rest };
+                  });
+                }}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <small style={{ color: "#666", marginTop: "0.25rem", display: "block" }}>
+          {t("knownLangsDesc")}
+        </small>
+      </div>
+
       <div style={{ marginBottom: "1rem" }}>
         <label>
           <input
@@ -354,6 +403,40 @@ export default function Profile({ user, onSaved }: Props) {
         </small>
       </div>
 
+      <div style={{ marginBottom: "1rem" }}>
+        <label>{t("translationCache")}</label>
+        <div style={{ fontSize: "0.9rem", color: "#666", margin: "0.25rem 0" }}>
+          {cacheStats
+            ? `${cacheStats.totalEntries} ${t("translationCacheSummary")} / ${(cacheStats.totalBytes / 1024).toFixed(1)} KB`
+            : "-"}
+        </div>
+        {cacheStats && Object.keys(cacheStats.byLang).length > 0 && (
+          <table style={{ fontSize: "0.85rem", color: "#555", borderCollapse: "collapse", marginBottom: "0.5rem" }}>
+            <tbody>
+              {Object.entries(cacheStats.byLang)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([code, s]) => {
+                  const lookups = s.hits + s.misses;
+                  return (
+                    <tr key={code}>
+                      <td style={{ padding: "2px 12px 2px 0", fontFamily: "monospace" }}>{code}</td>
+                      <td style={{ padding: "2px 12px 2px 0" }}>{s.entries} {t("translationCacheSummary")}</td>
+                      <td style={{ padding: "2px 12px 2px 0" }}>{(s.bytes / 1024).toFixed(1)} KB</td>
+                      <td style={{ padding: "2px 0" }}>
+                        {t("translationCacheHitRate")}: {lookups ? `${Math.round((s.hits / lookups) * 100)}%` : "-"}
+                      </td>
+                    </tr>
+                  );
+                })}
+            </tbody>
+          </table>
+        )}
+        <button type="button" onClick={() => setConfirmClearCache(true)} disabled={!cacheStats?.totalEntries}>
+          {t("clearTranslationCache")}
+        </button>
+        {cacheCleared && <span style={{ color: "green", marginLeft: 8, fontSize: "0.9em" }}>{t("translationCacheCleared")}</span>}
+      </div>
+
       <div style={{ display: 'flex', gap: '1em', justifyContent: 'flex-start' }}>
         <button className="profile-btn" onClick={handleSave} disabled={saving}>
           {saving ? t("saving") : t("save")}
@@ -367,6 +450,16 @@ export default function Profile({ user, onSaved }: Props) {
         </button>
       </div>
 
+      <ConfirmModal
+        open={confirmClearCache}
+        title={t("clearTranslationCache")}
+        message={t("clearTranslationCacheConfirm")}
+        onConfirm={handleClearCache}
+        onCancel={() => setConfirmClearCache(false)}
+        confirmText={t("ok")}
+        cancelText={t("cancel")}
+      />
+
       {/* ニックネーム警告モーダル */}
       {showNicknameWarning && (
         <div style={{
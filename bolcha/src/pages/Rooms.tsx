@@ -1,9 +1,10 @@
 import { useEffect, useState } from "react";
-import { collection, addDoc, query, orderBy, onSnapshot, serverTimestamp, getDocs, doc } from "firebase/firestore";
+import { collection, collectionGroup, addDoc, query, where, orderBy, limit, onSnapshot, serverTimestamp, getDocs, doc } from "firebase/firestore";
 import { getFunctions, httpsCallable } from "firebase/functions";
 import { db } from "../firebase";
 import { Link, useNavigate } from "react-router-dom";
 import type { User } from "firebase/auth";
+import type { FirestoreTimestamp } from "../types";
 import useIsAdmin from "../hooks/useIsAdmin";
 import ConfirmModal from "../components/ConfirmModal";
 
@@ -19,6 +20,10 @@ type Props = {
   user: User;
 };
 
+// メンションの購読範囲: 既読時刻が古くてもこの期間より前は見ない。件数も上限まで
+const MENTION_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+const MENTION_LIMIT = 100;
+
 function Rooms({ user }: Props) {
   const navigate = useNavigate();
   const [rooms, setRooms] = useState<Room[]>([]);
@@ -38,6 +43,8 @@ function Rooms({ user }: Props) {
   const [enablePresenceCounter, setEnablePresenceCounter] = useState<boolean>(false);
   // ルーム数制限設定
   const [maxRooms, setMaxRooms] = useState<number>(0);
+  // 未読の @メンション数（ルームごと）
+  const [mentionCounts, setMentionCounts] = useState<Record<string, number>>({});
 
   // プレゼンス設定の読み込み
   useEffect(() => {
@@ -54,6 +61,58 @@ function Rooms({ user }: Props) {
     return unsub;
   }, []);
 
+  // 自分宛てのメンションのうち、そのルームを最後に開いた時刻（users/{uid}.lastSeenAt）より新しいものを数える
+  // 購読するのは最も古い既読時刻（最大 MENTION_LOOKBACK_MS 前）以降の新しい順 MENTION_LIMIT 件
+  useEffect(() => {
+    let lastSeen: Record<string, Date> = {};
+    let mentions: { roomId: string; createdAt: Date }[] = [];
+    const windowStart = Date.now() - MENTION_LOOKBACK_MS;
+    let since: number | null = null;
+    let unsubMentions = () => {};
+    const update = () => {
+      const counts: Record<string, number> = {};
+      mentions.forEach(({ roomId, createdAt }) => {
+        const seen = lastSeen[roomId];
+        if (!seen || createdAt > seen) counts[roomId] = (counts[roomId] ?? 0) + 1;
+      });
+      setMentionCounts(counts);
+    };
+    const unsubSeen = onSnapshot(doc(db, "users", user.uid), (snap) => {
+      const seen: Record<string, FirestoreTimestamp | null> = snap.data()?.lastSeenAt ?? {};
+      // 書き込み直後（サーバー時刻が未確定）は null
+      lastSeen = Object.fromEntries(
+        Object.entries(seen).map(([roomId, ts]) => [roomId, ts?.toDate?.() ?? new Date()])
+      );
+      update();
+      // 未読の範囲が変わったときだけ購読し直す
+      const oldestSeen = Math.min(...Object.values(lastSeen).map((d) => d.getTime()));
+      const nextSince = Math.max(Number.isFinite(oldestSeen) ? oldestSeen : windowStart, windowStart);
+      if (nextSince === since) return;
+      since = nextSince;
+      unsubMentions();
+      unsubMentions = onSnapshot(
+        query(
+          collectionGroup(db, "messages"),
+          where("mentions", "array-contains", user.uid),
+          where("createdAt", ">", new Date(since)),
+          orderBy("createdAt", "desc"),
+          limit(MENTION_LIMIT)
+        ),
+        (snap) => {
+          mentions = snap.docs
+            .filter((d) => d.data().uid !== user.uid && d.ref.parent.parent)
+            .map((d) => ({ roomId: d.ref.parent.parent.id, createdAt: d.data().createdAt?.toDate?.() ?? new Date() }));
+          update();
+        },
+        () => setMentionCounts({}) // インデックス未作成など。バッジなしで続行
+      );
+    });
+    return () => {
+      unsubSeen();
+      unsubMentions();
+    };
+  }, [user.uid]);
+
   useEffect(() => {
     const timer = setInterval(() => setNow(new Date().getTime()), 30000); // 30秒ごと
     return () => clearInterval(timer);
@@ -338,6 +397,14 @@ function Rooms({ user }: Props) {
           return (
             <li key={r.id} style={{ display: 'flex', alignItems: 'center', gap: 8, height: 30, lineHeight: '30px' }}>
               <Link to={`/rooms/${r.id}`}>{r.name}</Link>
+              {!!mentionCounts[r.id] && (
+                <span
+                  style={{ background: '#d00', color: '#fff', borderRadius: 10, padding: '0 7px', fontSize: '0.8em', fontWeight: 600, lineHeight: '18px' }}
+                  title="あなたへの未読メンション"
+                >
+                  @{mentionCounts[r.id]}
+                </span>
+              )}
               {enablePresenceCounter && (
                 <span style={{ marginLeft: 8, color: '#1e90ff', fontWeight: 500, fontSize: '0.9em' }} title="参加者数">
                   👥 {presenceCounts[r.id] === undefined ? '...' : presenceCounts[r.id] ?? 0}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { hasTranslatableContent, maskProtectedSpans, placeholder, unmaskProtectedSpans } from "./protectedSpans";
+
+describe("maskProtectedSpans / unmaskProtectedSpans", () => {
+  it.each([
+    "see https://example.com/a_b?x=1 now",
+    "run `npm test` first",
+    "```\nconst a = 1;\n```",
+    "mail me at taro.yamada+chat@example.co.jp",
+    "@Taro_Yamada are you there?",
+    "nice 👍🏽 and 👨‍👩‍👧 and 🇯🇵",
+    "meet at 10:30 for 2.5 hours",
+    "**bold**, *italic*, _italic_ and ~~gone~~",
+    "> quoted\n- one\n- two\n1. first",
+    "snake_case_name stays a word",
+    "already ⟦0⟧ in the text",
+  ])("restores %j unchanged", (text) => {
+    const { text: masked, tokens } = maskProtectedSpans(text);
+    expect(unmaskProtectedSpans(masked, tokens)).toBe(text);
+  });
+
+  it("replaces each span by a numbered placeholder", () => {
+    const masked = maskProtectedSpans("ping @hana at https://example.com");
+    expect(masked.text).toBe(`ping ${placeholder(0)} at ${placeholder(1)}`);
+    expect(masked.tokens).toEqual(["@hana", "https://example.com"]);
+  });
+
+  it("leaves plain words alone", () => {
+    expect(maskProtectedSpans("hello there")).toEqual({ text: "hello there", tokens: [] });
+  });
+
+  it("restores placeholders the translator moved around", () => {
+    const { tokens } = maskProtectedSpans("@hana see https://example.com");
+    expect(unmaskProtectedSpans("⟦1⟧ を見て ⟦0⟧", tokens)).toBe("https://example.com を見て @hana");
+  });
+
+  it("accepts spaces and full-width digits inside the brackets", () => {
+    const { tokens } = maskProtectedSpans("@hana and @ken");
+    expect(unmaskProtectedSpans("⟦ 0 ⟧と⟦１⟧", tokens)).toBe("@hanaと@ken");
+  });
+
+  it("appends spans the translator dropped", () => {
+    const { tokens } = maskProtectedSpans("read https://example.com and `code`");
+    expect(unmaskProtectedSpans("読んで ⟦0⟧", tokens)).toBe("読んで https://example.com `code`");
+  });
+
+  it("keeps placeholders with unknown numbers as they are", () => {
+    const { tokens } = maskProtectedSpans("@hana");
+    expect(unmaskProtectedSpans("⟦0⟧ ⟦7⟧", tokens)).toBe("@hana ⟦7⟧");
+  });
+});
+
+describe("hasTranslatableContent", () => {
+  it.each([
+    ["https://example.com", false],
+    ["👍 123 !!", false],
+    ["@hana https://example.com", false],
+    ["thanks @hana", true],
+    ["了解 👍", true],
+  ])("%j → %s", (text, expected) => {
+    expect(hasTranslatableContent(maskProtectedSpans(text).text)).toBe(expected);
+  });
+});
@@ -0,0 +1,72 @@
+// Protected spans: parts of a message that must come back from translation untouched.
+// URLs, code (inline and fenced), e-mail addresses, @mentions, emoji, numbers and the
+// markdown-lite markers (markdownLite.tsx) are replaced by numbered placeholders before
+// translation and restored afterwards.
+// All functions here are pure so they can be exercised without any endpoint.
+
+export interface MaskedText {
+  text: string;     // text with placeholders, sent to the translator
+  tokens: string[]; // original spans, index = placeholder number
+}
+
+// Translators sometimes add spaces inside the brackets or switch to full-width digits
+const PLACEHOLDER_SRC = /⟦\s*([0-9０-９]+)\s*⟧/.source;
+const PLACEHOLDER_RE = new RegExp(PLACEHOLDER_SRC, "g");
+
+const PROTECTED_PATTERNS: string[] = [
+  PLACEHOLDER_SRC,                                   // placeholder-like text already in the message
+  /```[\s\S]*?```/.source,                           // fenced code block
+  /`[^`\n]+`/.source,                                // inline code
+  /https?:\/\/[^\s]+|www\.[^\s]+/.source,            // URLs (same rule as the ChatRoom linkifier)
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/.source,             // e-mail addresses
+  /@[^\s@]+/.source,                                 // @mentions
+  /(?<![^\n])[ \t]*(?:>|[-*+•]|\d+[.)])[ \t]+/.source,  // quote / list markers at the start of a line
+  /[0-9#*]\uFE0F?\u20E3/.source,                     // keycap emoji
+  // \p{...} classes only parse with the "u" flag, so those patterns stay plain strings
+  String.raw`(?:\p{Extended_Pictographic}|\p{Regional_Indicator})(?:\uFE0F|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200D\p{Extended_Pictographic})*`, // emoji, ZWJ sequences, flags
+  /\*+|~~/.source,                                   // bold / italic / strikethrough markers
+  String.raw`(?<![\p{L}\p{N}_])_(?=[^\s_])|(?<=[^\s_])_(?![\p{L}\p{N}_])`, // "_italic_" markers, not snake_case
+  String.raw`(?<![\p{L}\p{N}_])\d+(?:[.,:]\d+)*(?![\p{L}_])`, // numbers, times, decimals
+];
+
+// Single pass, so placeholders produced here are never matched again
+const PROTECTED_RE = new RegExp(PROTECTED_PATTERNS.join("|"), "gu");
+
+export function placeholder(i: number): string {
+  return `⟦${i}⟧`;
+}
+
+function toAsciiDigits(s: string): string {
+  return s.replace(/[０-９]/g, (d) => String.fromCharCode(d.charCodeAt(0) - 0xfee0));
+}
+
+// Replace protected spans with placeholders
+export function maskProtectedSpans(text: string): MaskedText {
+  const tokens: string[] = [];
+  const masked = text.replace(PROTECTED_RE, (m) => {
+    tokens.push(m);
+    return placeholder(tokens.length - 1);
+  });
+  return { text: masked, tokens };
+}
+
+// Put the original spans back. Placeholders the translator dropped are appended so that
+// no URL or code is ever lost.
+export function unmaskProtectedSpans(translated: string, tokens: string[]): string {
+  if (!tokens.length) return translated;
+  const used = new Set<number>();
+  const restored = translated.replace(PLACEHOLDER_RE, (m, n: string) => {
+    const idx = Number(toAsciiDigits(n));
+    if (idx >= tokens.length) return m;
+    used.add(idx);
+    return tokens[idx];
+  });
+  const missing = tokens.filter((_, i) => !used.has(i));
+  return missing.length ? `${restored} ${missing.join(" ")}` : restored;
+}
+
+// False when nothing but placeholders, whitespace, punctuation or symbols is left,
+// i.e. sending the text to an endpoint would be wasted quota
+export function hasTranslatableContent(masked: string): boolean {
+  return masked.replace(PLACEHOLDER_RE, "").replace(/[\s\p{P}\p{S}]/gu, "") !== "";
+}
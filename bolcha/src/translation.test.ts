@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+// No Firebase here: the shared translation memory is always a miss, config never arrives
+vi.mock("./firebase", () => ({ db: {}, auth: {} }));
+vi.mock("firebase/auth", () => ({ onAuthStateChanged: () => () => {} }));
+vi.mock("firebase/firestore", () => ({
+  doc: () => ({}),
+  getDoc: async () => ({ exists: () => false }),
+  onSnapshot: () => () => {},
+  collection: () => ({}),
+  getDocs: async () => ({ docs: [] }),
+  query: () => ({}),
+  where: () => ({}),
+  setDoc: async () => {},
+  increment: () => 0,
+  serverTimestamp: () => null,
+}));
+
+// One GAS endpoint whose "translation" shows the source language it was asked for
+const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+  const { text, target, source } = JSON.parse(String(init?.body));
+  return new Response(JSON.stringify({ translatedText: `${source ?? "auto"}→${target}: ${text}` }));
+});
+
+let translation: typeof import("./translation");
+
+beforeAll(async () => {
+  vi.stubEnv("VITE_GAS_ENDPOINTS", "https://gas.example/exec");
+  vi.stubGlobal("fetch", fetchMock);
+  translation = await import("./translation");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  fetchMock.mockClear();
+});
+
+describe("source language corrections", () => {
+  it("translateText does not reuse the translation made from the wrong source", async () => {
+    const { translateText } = translation;
+    expect(await translateText("Hola amigos", "ja", { sourceLang: "it" })).toBe("it→ja: Hola amigos");
+    expect(await translateText("Hola amigos", "ja", { sourceLang: "it" })).toBe("it→ja: Hola amigos");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    expect(await translateText("Hola amigos", "ja", { sourceLang: "es" })).toBe("es→ja: Hola amigos");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("translateMany does not reuse the translation made from the wrong source", async () => {
+    const { translateMany } = translation;
+    expect(await translateMany(["Bom dia"], "en", { sourceLang: "es" })).toEqual(["es→en: Bom dia"]);
+    expect(await translateMany(["Bom dia"], "en", { sourceLang: "pt" })).toEqual(["pt→en: Bom dia"]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,42 +1,75 @@
-// Utility to call custom GAS translation API endpoints in a round-robin fashion
-// GAS endpoint list is provided via `VITE_GAS_ENDPOINTS` (comma-separated URLs)
+// Utility to call translation API endpoints with failover
+// Endpoint list is provided via `VITE_GAS_ENDPOINTS` (comma-separated URLs, optionally `type:`-prefixed)
 // Additionally, admin can manage endpoints via Firestore doc `admin/config` field `gasEndpoints`.
+// Each entry is turned into a `TranslationProvider` (GAS, the Bolcha proxy or local mock);
+// LibreTranslate / DeepL entries are skipped, those backends are reached through the proxy.
 
+import { db, auth } from "./firebase";
+import { doc, onSnapshot } from "firebase/firestore";
+import { onAuthStateChanged } from "firebase/auth";
+import { createProvider, parseEndpointEntry, isClientEndpoint, providerErrorKind } from "./translationProviders";
+import type { TranslationProvider } from "./translationProviders";
+import type { ClientEndpoint, GasEndpointEntry } from "./types";
+import { schedule, setPoolConcurrency, abortError, isAbortError } from "./translationPool";
+import { getCachedTranslation, getManyCachedTranslations, setCachedTranslation } from "./translationCache";
+import { lookupTranslationMemory } from "./translationMemory";
+import { maskProtectedSpans, unmaskProtectedSpans, hasTranslatableContent } from "./protectedSpans";
+import {
+  parseGlossary,
+  setGlobalGlossary,
+  resolveGlossary,
+  matchGlossary,
+  maskGlossaryTerms,
+  enforceGlossary,
+  glossarySignature,
+} from "./glossary";
+import type { GlossaryEntry } from "./types";
+import {
+  acquireEndpoint,
+  isEndpointAvailable,
+  recordSuccess,
+  recordFailure,
+  recordCancelled,
+  pruneEndpointHealth,
+  getEndpointHealth,
+  startHealthProbes,
+} from "./endpointHealth";
+import "./endpointStats"; // aggregates endpoint outcomes into Firestore for the admin dashboard
+import { segmentLanguages, sameLanguage } from "./langDetect";
+
+function buildProviders(entries: GasEndpointEntry[]): TranslationProvider[] {
+  return entries
+    .map((e) => parseEndpointEntry(e))
+    .filter((e): e is ClientEndpoint => e !== null && isClientEndpoint(e))
+    .map(createProvider);
+}
 
 const initialEndpoints = (import.meta.env.VITE_GAS_ENDPOINTS as string | undefined)
   ?.split(/[, ]+/)
   .filter(Boolean) || [];
 
-const endpoints: string[] = [...initialEndpoints];
-
-import { db, auth } from "./firebase";
-import { doc, onSnapshot } from "firebase/firestore";
-import { onAuthStateChanged } from "firebase/auth";
+const endpoints: TranslationProvider[] = buildProviders(initialEndpoints);
 
-let primary = 0;           // index of the preferred endpoint
-let failStreak = 0;        // consecutive failures of the current primary
-const FAIL_THRESHOLD = 2;  // switch primary after this many consecutive failures
+// Failover is driven by the per-endpoint circuit breaker in endpointHealth.ts
+startHealthProbes(() => endpoints);
 
-// simple promise queue to ensure only one request at a time
-let chain: Promise<any> = Promise.resolve();
+// Requests run through a bounded pool: up to this many in flight per endpoint
+const PER_ENDPOINT_CONCURRENCY = 2;
+const inFlight = new Map<string, number>(); // provider id → running requests
 
-// ---------- Simple client-side cache (sessionStorage + in-memory) ----------
-const CACHE_KEY = 'tranCache';
-const _initCache: Record<string, string> = (() => {
-  try {
-    return JSON.parse(sessionStorage.getItem(CACHE_KEY) || '{}');
-  } catch {
-    return {};
-  }
-})();
-const cache = new Map<string, string>(Object.entries(_initCache));
-function saveCache() {
-  try {
-    sessionStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(cache)));
-  } catch {
-    /* ignore quota errors */
-  }
+function updateConcurrency() {
+  setPoolConcurrency(Math.max(1, endpoints.length) * PER_ENDPOINT_CONCURRENCY);
 }
+updateConcurrency();
+
+// ---------- Client-side cache (IndexedDB, see translationCache.ts) ----------
+// A known source language is part of the key, so correcting it misses the entry translated
+// from the wrong one. Texts with glossary terms carry the glossary fingerprint so edits to
+// the glossary take effect.
+const cacheKey = (text: string, targetLang: string, sourceLang?: string, terms: GlossaryEntry[] = []) =>
+  `${targetLang}:${text}` +
+  (sourceLang ? `\u0001${sourceLang}` : "") +
+  (terms.length ? `\u0000${glossarySignature(terms)}` : "");
 
 // Runtime load of endpoints from Firestore (admin-configurable)
 if (!(globalThis as any).__TRAN_CFG_LISTENER__) {
@@ -50,16 +83,18 @@ if (!(globalThis as any).__TRAN_CFG_LISTENER__) {
       cfgRef,
       (snap) => {
       const data = snap.data();
+      setGlobalGlossary(parseGlossary(data?.glossary));
       if (data && Array.isArray(data.gasEndpoints)) {
-        if (data.gasEndpoints.length) {
-          endpoints.splice(0, endpoints.length, ...data.gasEndpoints.filter(Boolean));
-          console.info("[translation] endpoints updated from Firestore", endpoints);
+        const fromConfig = buildProviders(data.gasEndpoints);
+        if (fromConfig.length) {
+          endpoints.splice(0, endpoints.length, ...fromConfig);
+          console.info("[translation] endpoints updated from Firestore", endpoints.map((p) => p.id));
         } else {
-          endpoints.splice(0, endpoints.length, ...initialEndpoints);
-          console.info("[translation] endpoints reset to .env list", endpoints);
+          endpoints.splice(0, endpoints.length, ...buildProviders(initialEndpoints));
+          console.info("[translation] endpoints reset to .env list", endpoints.map((p) => p.id));
         }
-        primary = 0;
-        failStreak = 0;
+        pruneEndpointHealth(endpoints.map((p) => p.id));
+        updateConcurrency();
       }
       },
       (err) => {
@@ -75,128 +110,121 @@ if (!(globalThis as any).__TRAN_CFG_LISTENER__) {
 }
 
 
-// Try translating via one endpoint: POST first, then GET fallback
-async function attemptTranslate(
-  url: string,
-  text: string,
-  targetLang: string
-): Promise<string | null> {
-  try {
-    const postRes = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text, target: targetLang }),
-    });
-    if (postRes.ok) {
-      const maybeJson = await safeParse(postRes);
-      return handleResult(maybeJson, text);
-    }
-  } catch (e) {
-  }
-
-  try {
-    const params = new URLSearchParams({ text, target: targetLang });
-    const getRes = await fetch(`${url}?${params.toString()}`);
-    if (getRes.ok) {
-      const maybeJson = await safeParse(getRes);
-      return handleResult(maybeJson, text);
-    }
-  } catch (e) {
-  }
-  return null;
+// Endpoint order for one request: endpoints with an open circuit are skipped, the rest go
+// least busy first, then lowest recent error rate, then configured order.
+// This spreads concurrent pool jobs across all healthy endpoints.
+function endpointOrder(): TranslationProvider[] {
+  const errorRate = new Map(getEndpointHealth().map((h) => [h.id, h.errorRate]));
+  return endpoints
+    .filter((p) => isEndpointAvailable(p.id))
+    .map((p, i) => ({ p, i }))
+    .sort((a, b) =>
+      (inFlight.get(a.p.id) ?? 0) - (inFlight.get(b.p.id) ?? 0) ||
+      (errorRate.get(a.p.id) ?? 0) - (errorRate.get(b.p.id) ?? 0) ||
+      a.i - b.i
+    )
+    .map(({ p }) => p);
 }
 
-// Try translating via one endpoint: POST first, then GET fallback (Raw version without preserveBlankLines)
-async function attemptTranslateRaw(
-  url: string,
-  text: string,
-  targetLang: string
-): Promise<string | null> {
-  try {
-    const postRes = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text, target: targetLang }),
-    });
-    if (postRes.ok) {
-      const maybeJson = await safeParse(postRes);
-      return handleResultRaw(maybeJson);
-    }
-  } catch (e) {
-  }
-
-  try {
-    const params = new URLSearchParams({ text, target: targetLang });
-    const getRes = await fetch(`${url}?${params.toString()}`);
-    if (getRes.ok) {
-      const maybeJson = await safeParse(getRes);
-      return handleResultRaw(maybeJson);
-    }
-  } catch (e) {
-  }
-  return null;
-}
-
-async function doTranslate(text: string, targetLang: string): Promise<string | null> {
+// Iterate over endpoints until `call` succeeds on one of them
+async function withEndpoints<T>(
+  call: (provider: TranslationProvider) => Promise<T | null>,
+  signal?: AbortSignal
+): Promise<T | null> {
   if (!endpoints.length) {
     return null;
   }
-  // Iterate over endpoints, starting with the current primary, until one succeeds
-  for (let i = 0; i < endpoints.length; i++) {
-    const idx = (primary + i) % endpoints.length;
-    const url = endpoints[idx];
+  for (const provider of endpointOrder()) {
+    if (signal?.aborted) throw abortError();
+    if (!acquireEndpoint(provider.id)) continue; // circuit opened meanwhile / trial taken
 
-    const maybe = await attemptTranslate(url, text, targetLang);
+    inFlight.set(provider.id, (inFlight.get(provider.id) ?? 0) + 1);
+    const started = performance.now();
+    let maybe: T | null;
+    try {
+      maybe = await call(provider);
+    } catch (e) {
+      if (signal?.aborted || isAbortError(e)) {
+        recordCancelled(provider.id);
+        throw e;
+      }
+      // the request itself was refused (e.g. too long for the proxy): try the next endpoint
+      // without holding it against this one
+      if (providerErrorKind(e) === "rejected") {
+        recordCancelled(provider.id);
+        continue;
+      }
+      recordFailure(provider.id, performance.now() - started, e);
+      continue;
+    } finally {
+      inFlight.set(provider.id, (inFlight.get(provider.id) ?? 1) - 1);
+    }
     if (maybe !== null) {
-      // Success → promote this index to be the primary
-      primary = idx;
-      failStreak = 0;
+      recordSuccess(provider.id, performance.now() - started);
       return maybe;
     }
+    recordFailure(provider.id, performance.now() - started);
   }
 
-  // All endpoints failed this round
-  failStreak += 1;
-  if (failStreak >= FAIL_THRESHOLD) {
-    primary = (primary + 1) % endpoints.length; // shift to next endpoint
-    failStreak = 0;
-  }
+  // All available endpoints failed this round
   return null;
 }
 
+// Returns the raw provider result
+function translateViaEndpoints(
+  text: string,
+  targetLang: string,
+  opts: TranslateRequestOptions
+): Promise<string | null> {
+  return withEndpoints(
+    (p) => p.translate(text, targetLang, { source: opts.sourceLang, signal: opts.signal }),
+    opts.signal
+  );
+}
+
+async function doTranslate(text: string, targetLang: string, opts: TranslateRequestOptions): Promise<string | null> {
+  return handleResult(await translateViaEndpoints(text, targetLang, opts), text);
+}
+
 // Function specifically for translating individual lines (bypasses preserveBlankLines)
-async function doTranslateLine(text: string, targetLang: string): Promise<string | null> {
-  if (!endpoints.length) {
-    return null;
-  }
-  // Iterate over endpoints, starting with the current primary, until one succeeds
-  for (let i = 0; i < endpoints.length; i++) {
-    const idx = (primary + i) % endpoints.length;
-    const url = endpoints[idx];
+async function doTranslateLine(text: string, targetLang: string, opts: TranslateRequestOptions): Promise<string | null> {
+  return translateViaEndpoints(text, targetLang, opts);
+}
 
-    const maybe = await attemptTranslateRaw(url, text, targetLang);
-    if (maybe !== null) {
-      // Success → promote this index to be the primary
-      primary = idx;
-      failStreak = 0;
-      return maybe;
-    }
-  }
+// Part of a line in one language. Lines that switch language ("了解です, will do") are split
+// so that runs already in the target language are kept as they are; whitespace around a run
+// stays out of the request and is put back afterwards.
+interface LinePart {
+  lead: string;
+  text: string;
+  trail: string;
+  translate: boolean;
+  sourceLang?: string; // only for runs of a mixed line; otherwise the message's language applies
+}
 
-  // All endpoints failed this round
-  failStreak += 1;
-  if (failStreak >= FAIL_THRESHOLD) {
-    primary = (primary + 1) % endpoints.length; // shift to next endpoint
-    failStreak = 0;
-  }
-  return null;
+function splitLine(line: string, targetLang: string): LinePart[] {
+  const runs = segmentLanguages(line);
+  const mixed = runs.length > 1;
+  return runs.map((r) => {
+    const [, lead, text, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(r.text)!;
+    const keep = mixed && sameLanguage(r.lang, targetLang);
+    return { lead, text, trail, translate: !keep && hasTranslatableContent(text), sourceLang: mixed ? r.lang : undefined };
+  });
+}
+
+function joinParts(parts: LinePart[], translated: (part: LinePart) => string | undefined): string {
+  return parts.map((p) => p.lead + (p.translate ? translated(p) ?? p.text : p.text) + p.trail).join("");
 }
 
 // New function to handle line breaks by translating each line separately
-async function doTranslateWithLineBreaks(text: string, targetLang: string): Promise<string | null> {
-  // If text has no line breaks, use original function
-  if (!text.includes('\n')) {
-    return await doTranslate(text, targetLang);
+async function doTranslateWithLineBreaks(
+  text: string,
+  targetLang: string,
+  opts: TranslateRequestOptions
+): Promise<string | null> {
+  // If text is a single line in a single language, use original function
+  if (!text.includes('\n') && segmentLanguages(text).length < 2) {
+    return await doTranslate(text, targetLang, opts);
   }
   
   
@@ -205,27 +233,31 @@ async function doTranslateWithLineBreaks(text: string, targetLang: string): Prom
   const translatedLines: string[] = [];
   
   
-  // Translate each line separately
+  // Translate each line (and each language run of a mixed line) separately
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
     
     if (line.trim() === '') {
       // Preserve empty lines
       translatedLines.push('');
-    } else {
+      continue;
+    }
+    // Runs with only placeholders / punctuation, or already in the target language, are not sent
+    const parts = splitLine(line, targetLang);
+    const results = new Map<LinePart, string>();
+    for (const part of parts.filter((p) => p.translate)) {
       try {
-        const translatedLine = await doTranslateLine(line, targetLang);
-        if (translatedLine !== null) {
-          translatedLines.push(translatedLine);
-        } else {
-          // If translation fails, keep original line
-          translatedLines.push(line);
-        }
+        const partOpts = part.sourceLang ? { ...opts, sourceLang: part.sourceLang } : opts;
+        const translatedPart = await doTranslateLine(part.text, targetLang, partOpts);
+        // If translation fails, keep original text
+        if (translatedPart !== null) results.set(part, translatedPart);
       } catch (error) {
-        // If translation fails, keep original line
-        translatedLines.push(line);
+        // Cancelled → abandon the whole message
+        if (isAbortError(error)) throw error;
+        // If translation fails, keep original text
       }
     }
+    translatedLines.push(joinParts(parts, (p) => results.get(p)));
   }
   
   // Join translated lines with line breaks
@@ -241,96 +273,192 @@ function escapeRegExp(string: string): string {
 }
 
 
-export function translateText(text: string, targetLang: string): Promise<string | null> {
-  const cacheKey = `${targetLang}:${text}`;
-  if (cache.has(cacheKey)) {
-    return Promise.resolve(cache.get(cacheKey)!);
+export interface TranslateRequestOptions {
+  priority?: number;     // higher runs first (e.g. message timestamp → newest first)
+  signal?: AbortSignal;  // abort to drop the request (leaving the room, switching language)
+  sourceLang?: string;   // ISO-639-1 code of the text, when known
+  roomId?: string;       // room whose glossary overrides apply
+}
+
+export async function translateText(
+  text: string,
+  targetLang: string,
+  opts: TranslateRequestOptions = {}
+): Promise<string | null> {
+  const glossary = resolveGlossary(targetLang, opts.sourceLang, opts.roomId);
+  const terms = matchGlossary(text, glossary);
+  const key = cacheKey(text, targetLang, opts.sourceLang, terms);
+  const cached = await getCachedTranslation(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  // shared translation memory before any endpoint (it knows nothing about glossaries)
+  const remembered = terms.length ? null : await lookupTranslationMemory(text, targetLang, opts.sourceLang);
+  if (remembered !== null) {
+    setCachedTranslation(key, remembered);
+    return remembered;
+  }
+
+  // URLs, code, mentions, emoji and numbers never reach the endpoint (see protectedSpans.ts),
+  // neither do glossary terms: their placeholders come back as the configured rendering
+  const masked = maskGlossaryTerms(maskProtectedSpans(text), terms);
+  if (!hasTranslatableContent(masked.text)) {
+    return unmaskProtectedSpans(masked.text, masked.tokens);
   }
-  
-  
-  const next = chain.then(async () => {
-    const res = await doTranslateWithLineBreaks(text, targetLang);
+
+  return schedule(async () => {
+    const raw = await doTranslateWithLineBreaks(masked.text, targetLang, opts);
+    const res = raw === null ? null : unmaskProtectedSpans(enforceGlossary(raw, glossary), masked.tokens);
     if (res !== null) {
-      cache.set(cacheKey, res);
-      saveCache();
-    } else {
+      setCachedTranslation(key, res);
     }
-    // small delay between requests to avoid hitting quota hard
-    await new Promise((r) => setTimeout(r, 300));
     return res;
-  });
-  // update chain but swallow result so the queue never rejects
-  chain = next.then(
-    () => {},
-    () => {}
-  );
-  return next;
+  }, { priority: opts.priority, signal: opts.signal });
 }
 
 
-function handleResult(maybeJson: string | null, text: string): string | null {
-  if (typeof maybeJson === "string") {
-    return preserveBlankLines(text, maybeJson);
-  }
-  return maybeJson;
-}
+/* ---------- Batch translation ---------- */
 
-function handleResultRaw(maybeJson: string | null): string | null {
-  // Return the raw result without preserveBlankLines processing
-  return maybeJson;
+// Limits for one packed request (GAS URLs and quotas favour modest payloads)
+const BATCH_MAX_CHARS = 1800;
+const BATCH_MAX_ITEMS = 30;
+
+// Providers without a native batch API receive one text with numbered marker lines
+const batchMarker = (i: number) => `§§${i}§§`;
+const BATCH_MARKER_RE = /§§\s*(\d+)\s*§§/;
+
+function packBatch(units: string[]): string {
+  return units.map((u, i) => `${batchMarker(i)}\n${u}`).join("\n");
 }
 
-async function safeParse(res: Response): Promise<string | null> {
-  try {
-    const txt = await res.text();
-    if (!txt) return null;
+// Split a packed translation back into its units; null when any unit went missing
+function unpackBatch(result: string, count: number): string[] | null {
+  const parts = result.split(new RegExp(BATCH_MARKER_RE.source, "g"));
+  const out: (string | null)[] = new Array(count).fill(null);
+  for (let i = 1; i < parts.length; i += 2) {
+    const idx = Number(parts[i]);
+    const unit = parts[i + 1]?.trim();
+    if (idx >= 0 && idx < count && unit) out[idx] = unit;
+  }
+  return out.every((u) => u !== null) ? (out as string[]) : null;
+}
 
-    // Heuristic to detect if the response is HTML, which is unexpected.
-    // It might be a fallback page from a proxy or a misconfigured endpoint.
-    if (txt.trim().startsWith("<") && txt.includes("html")) {
-      return null; // Ignore HTML responses
+// One batch request across endpoints, native batch API first
+function translateBatchViaEndpoints(
+  units: string[],
+  targetLang: string,
+  opts: TranslateRequestOptions
+): Promise<string[] | null> {
+  return withEndpoints(async (p) => {
+    const providerOpts = { source: opts.sourceLang, signal: opts.signal };
+    if (p.translateBatch) {
+      const res = await p.translateBatch(units, targetLang, providerOpts);
+      return res && res.length === units.length ? res : null;
     }
+    const packed = await p.translate(packBatch(units), targetLang, providerOpts);
+    return packed === null ? null : unpackBatch(packed, units.length);
+  }, opts.signal);
+}
 
-    let raw: string | null = null;
-    try {
-      // Prefer JSON parsing
-      const obj = JSON.parse(txt);
-      const maybeText = obj.translatedText || obj.text || obj.translation || null;
-      if (typeof maybeText === "string") {
-        raw = maybeText;
-      } else {
-        return maybeText;
-      }
-    } catch {
-      // Fallback for non-JSON responses
-      raw = txt;
+// Group units into requests that respect the batch limits
+function chunkUnits(units: string[]): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const u of units) {
+    if (current.length && (size + u.length > BATCH_MAX_CHARS || current.length >= BATCH_MAX_ITEMS)) {
+      chunks.push(current);
+      current = [];
+      size = 0;
     }
+    current.push(u);
+    size += u.length;
+  }
+  if (current.length) chunks.push(current);
+  return chunks;
+}
 
-    if (raw) {
-      // First, decode common HTML entities that might be in a plain text response
-      const decoded = raw
-        .replace(/&lt;/g, "<")
-        .replace(/&gt;/g, ">")
-        .replace(/&quot;/g, "\"")
-        .replace(/&#39;/g, "'")
-        .replace(/&amp;/g, "&");
-
-      // Normalize newlines and <br> tags, then strip any remaining HTML tags.
-      const cleaned = decoded
-        .replace(/\\n/g, "\n") // unescape \n
-        .replace(/<br\s*\/?>/gi, "\n") // <br> to newline
-        .replace(/<\/p>\s*<p>/gi, "\n\n") // paragraph breaks
-        .replace(/<[^>]*>/g, "") // strip all other tags
-        .replace(/\r\n/g, "\n") // normalize Windows line endings
-        .replace(/\r/g, "\n") // normalize Mac line endings
-        .trim();
-
-      return cleaned;
+// Translate several messages at once: every non-empty line of every uncached text is
+// packed into as few endpoint calls as possible, then reassembled per message.
+// Resolves to one entry per input text (null where translation failed).
+export async function translateMany(
+  texts: string[],
+  targetLang: string,
+  opts: TranslateRequestOptions = {}
+): Promise<(string | null)[]> {
+  const glossary = resolveGlossary(targetLang, opts.sourceLang, opts.roomId);
+  const terms = texts.map((t) => matchGlossary(t, glossary));
+  const keys = texts.map((t, i) => cacheKey(t, targetLang, opts.sourceLang, terms[i]));
+  const cached = await getManyCachedTranslations(keys);
+  const results: (string | null)[] = cached.map((c) => c ?? null);
+  // shared translation memory before any endpoint (it knows nothing about glossaries)
+  await Promise.all(texts.map(async (t, i) => {
+    if (results[i] !== null || terms[i].length) return;
+    const remembered = await lookupTranslationMemory(t, targetLang, opts.sourceLang);
+    if (remembered !== null) {
+      results[i] = remembered;
+      setCachedTranslation(keys[i], remembered);
     }
-    return null;
-  } catch (e) {
-    return null;
+  }));
+  const pending = texts.map((_, i) => i).filter((i) => results[i] === null);
+  if (!pending.length) return results;
+
+  // protected spans and glossary terms are masked per text; lines (or language runs of a
+  // mixed line) left with nothing translatable are kept as is
+  const masked = new Map(pending.map((i) => [i, maskGlossaryTerms(maskProtectedSpans(texts[i]), terms[i])]));
+  const lineParts = new Map<string, LinePart[]>();
+  pending.forEach((i) => masked.get(i)!.text.split("\n").forEach((l) => {
+    if (l.trim() !== "" && !lineParts.has(l)) lineParts.set(l, splitLine(l, targetLang));
+  }));
+  const partsOf = (l: string) => lineParts.get(l) ?? [];
+
+  // unique translatable runs; runs that look like markers are translated on their own
+  const units = Array.from(new Set(
+    Array.from(lineParts.values()).flat().filter((p) => p.translate).map((p) => p.text)
+  ));
+  const batchable = units.filter((u) => !BATCH_MARKER_RE.test(u));
+  const translatedUnits = new Map<string, string>();
+
+  await Promise.all(chunkUnits(batchable).map((chunk) =>
+    schedule(async () => {
+      const res = chunk.length > 1 ? await translateBatchViaEndpoints(chunk, targetLang, opts) : null;
+      if (res) {
+        chunk.forEach((u, i) => translatedUnits.set(u, res[i]));
+        return;
+      }
+      // batch failed (or single unit) → fall back to one request per line
+      for (const u of chunk) {
+        const single = await doTranslateLine(u, targetLang, opts);
+        if (single !== null) translatedUnits.set(u, single);
+      }
+    }, { priority: opts.priority, signal: opts.signal })
+  ));
+  for (const u of units.filter((u) => BATCH_MARKER_RE.test(u))) {
+    const single = await schedule(() => doTranslateLine(u, targetLang, opts), { priority: opts.priority, signal: opts.signal });
+    if (single !== null) translatedUnits.set(u, single);
   }
+
+  for (const i of pending) {
+    const { text, tokens } = masked.get(i)!;
+    const lines = text.split("\n");
+    // a message counts as translated only if every translatable run was
+    if (lines.some((l) => partsOf(l).some((p) => p.translate && !translatedUnits.has(p.text)))) continue;
+    const joined = lines
+      .map((l) => (l.trim() === "" ? "" : joinParts(partsOf(l), (p) => translatedUnits.get(p.text))))
+      .join("\n");
+    const res = unmaskProtectedSpans(enforceGlossary(joined, glossary), tokens);
+    results[i] = res;
+    setCachedTranslation(keys[i], res);
+  }
+  return results;
+}
+
+
+function handleResult(maybeJson: string | null, text: string): string | null {
+  if (typeof maybeJson === "string") {
+    return preserveBlankLines(text, maybeJson);
+  }
+  return maybeJson;
 }
 
 // keep blank-line count same as source
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { clearTranslationCache, getCachedTranslation, setCachedTranslation } from "./translationCache";
+
+// No IndexedDB under Node: these run against the memory-only fallback
+const MAX_ENTRIES = 5000; // same bound as translationCache.ts
+
+async function fill() {
+  for (let i = 0; i < MAX_ENTRIES; i++) await setCachedTranslation(`ja:text ${i}`, `訳 ${i}`);
+}
+
+describe("memory-only translation cache", () => {
+  beforeEach(() => clearTranslationCache());
+
+  it("evicts the least recently written entry first", async () => {
+    await fill();
+    await setCachedTranslation("ja:one more", "もう一つ");
+    expect(await getCachedTranslation("ja:text 0")).toBeUndefined();
+    expect(await getCachedTranslation("ja:text 1")).toBe("訳 1");
+  });
+
+  it("keeps an entry that was read recently", async () => {
+    await fill();
+    expect(await getCachedTranslation("ja:text 0")).toBe("訳 0");
+    await setCachedTranslation("ja:one more", "もう一つ");
+    expect(await getCachedTranslation("ja:text 0")).toBe("訳 0");
+    expect(await getCachedTranslation("ja:text 1")).toBeUndefined();
+  });
+
+  it("keeps an entry that was overwritten recently", async () => {
+    await fill();
+    await setCachedTranslation("ja:text 0", "新しい訳");
+    await setCachedTranslation("ja:one more", "もう一つ");
+    expect(await getCachedTranslation("ja:text 0")).toBe("新しい訳");
+    expect(await getCachedTranslation("ja:text 1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,285 @@
+// Persistent translation cache (IndexedDB + in-memory front)
+// Entries survive tab reloads so reopening a room does not re-fetch translations.
+// Eviction is LRU by `lastAccess`, bounded by entry count and approximate byte size.
+// Falls back to memory only when IndexedDB is unavailable (e.g. some private modes); `memory`
+// is then kept in recency order (a Map iterates in insertion order) and trimmed from the front.
+
+const DB_NAME = "bolcha-translation";
+const DB_VERSION = 1;
+const ENTRY_STORE = "entries";
+const STATS_STORE = "stats";
+
+const MAX_ENTRIES = 5000;
+const MAX_BYTES = 5 * 1024 * 1024;
+const EVICT_TO_RATIO = 0.9; // evict down to 90% of the limits
+
+const LEGACY_SESSION_KEY = "tranCache";
+
+interface CacheEntry {
+  key: string;
+  lang: string;
+  value: string;
+  size: number;
+  lastAccess: number;
+}
+
+interface LangStats {
+  lang: string;
+  hits: number;
+  misses: number;
+}
+
+export interface TranslationCacheStats {
+  totalEntries: number;
+  totalBytes: number;
+  byLang: Record<string, { entries: number; bytes: number; hits: number; misses: number }>;
+}
+
+const memory = new Map<string, string>();
+const langStats = new Map<string, LangStats>();
+let statsDirty = false;
+
+// Keys look like `${targetLang}:${text}`
+function langOf(key: string): string {
+  return key.slice(0, key.indexOf(":"));
+}
+
+// Re-inserting moves the key to the end, so the first key is always the least recently used
+function remember(key: string, value: string) {
+  memory.delete(key);
+  memory.set(key, value);
+}
+
+function entrySize(key: string, value: string): number {
+  return (key.length + value.length) * 2; // UTF-16
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+const dbPromise: Promise<IDBDatabase | null> = new Promise((resolve) => {
+  try {
+    if (typeof indexedDB === "undefined") return resolve(null);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        db.createObjectStore(ENTRY_STORE, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(STATS_STORE)) {
+        db.createObjectStore(STATS_STORE, { keyPath: "lang" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => resolve(null);
+    req.onblocked = () => resolve(null);
+  } catch {
+    resolve(null);
+  }
+});
+
+// Load hit/miss counters and migrate the old sessionStorage cache once
+dbPromise.then(async (db) => {
+  let legacy: Record<string, string> = {};
+  try {
+    legacy = JSON.parse(sessionStorage.getItem(LEGACY_SESSION_KEY) || "{}");
+    sessionStorage.removeItem(LEGACY_SESSION_KEY);
+  } catch {
+    /* ignore malformed legacy cache */
+  }
+  Object.entries(legacy).forEach(([k, v]) => {
+    if (typeof v === "string") setCachedTranslation(k, v);
+  });
+  if (!db) return;
+  try {
+    const rows = await promisify(db.transaction(STATS_STORE).objectStore(STATS_STORE).getAll() as IDBRequest<LangStats[]>);
+    rows.forEach((r) => {
+      const cur = langStats.get(r.lang);
+      langStats.set(r.lang, { lang: r.lang, hits: r.hits + (cur?.hits ?? 0), misses: r.misses + (cur?.misses ?? 0) });
+    });
+  } catch {
+    /* stats are best effort */
+  }
+});
+
+function countLookup(key: string, hit: boolean) {
+  const lang = langOf(key);
+  const s = langStats.get(lang) ?? { lang, hits: 0, misses: 0 };
+  if (hit) s.hits++;
+  else s.misses++;
+  langStats.set(lang, s);
+  if (!statsDirty) {
+    statsDirty = true;
+    setTimeout(flushStats, 2000);
+  }
+}
+
+async function flushStats() {
+  statsDirty = false;
+  const db = await dbPromise;
+  if (!db) return;
+  try {
+    const store = db.transaction(STATS_STORE, "readwrite").objectStore(STATS_STORE);
+    langStats.forEach((s) => store.put(s));
+  } catch {
+    /* ignore */
+  }
+}
+
+// Memory first, then IndexedDB; refreshes the entry's LRU timestamp
+export async function getCachedTranslation(key: string): Promise<string | undefined> {
+  const mem = memory.get(key);
+  if (mem !== undefined) {
+    remember(key, mem);
+    countLookup(key, true);
+    touch(key);
+    return mem;
+  }
+  const db = await dbPromise;
+  if (db) {
+    try {
+      const entry = await promisify(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(key) as IDBRequest<CacheEntry | undefined>);
+      if (entry) {
+        remember(key, entry.value);
+        countLookup(key, true);
+        touch(key);
+        return entry.value;
+      }
+    } catch {
+      /* treat as miss */
+    }
+  }
+  countLookup(key, false);
+  return undefined;
+}
+
+export async function getManyCachedTranslations(keys: string[]): Promise<(string | undefined)[]> {
+  return Promise.all(keys.map(getCachedTranslation));
+}
+
+async function touch(key: string) {
+  const db = await dbPromise;
+  if (!db) return;
+  try {
+    const store = db.transaction(ENTRY_STORE, "readwrite").objectStore(ENTRY_STORE);
+    const entry = await promisify(store.get(key) as IDBRequest<CacheEntry | undefined>);
+    if (entry) store.put({ ...entry, lastAccess: Date.now() });
+  } catch {
+    /* ignore */
+  }
+}
+
+export async function setCachedTranslation(key: string, value: string) {
+  remember(key, value);
+  const db = await dbPromise;
+  if (!db) {
+    // memory-only mode still needs a bound
+    if (memory.size > MAX_ENTRIES) {
+      const oldest = memory.keys().next().value;
+      if (oldest !== undefined) memory.delete(oldest);
+    }
+    return;
+  }
+  try {
+    const entry: CacheEntry = { key, lang: langOf(key), value, size: entrySize(key, value), lastAccess: Date.now() };
+    const tx = db.transaction(ENTRY_STORE, "readwrite");
+    tx.objectStore(ENTRY_STORE).put(entry);
+    await new Promise((resolve, reject) => {
+      tx.oncomplete = resolve;
+      tx.onerror = () => reject(tx.error);
+    });
+    scheduleEviction();
+  } catch {
+    // quota exceeded → make room and move on
+    scheduleEviction();
+  }
+}
+
+let evictionTimer: ReturnType<typeof setTimeout> | null = null;
+function scheduleEviction() {
+  if (evictionTimer) return;
+  evictionTimer = setTimeout(() => {
+    evictionTimer = null;
+    evict();
+  }, 1000);
+}
+
+// Drop least recently used entries until count and size are below the limits
+async function evict() {
+  const db = await dbPromise;
+  if (!db) return;
+  try {
+    const all = await promisify(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll() as IDBRequest<CacheEntry[]>);
+    let count = all.length;
+    let bytes = all.reduce((sum, e) => sum + e.size, 0);
+    if (count <= MAX_ENTRIES && bytes <= MAX_BYTES) return;
+
+    all.sort((a, b) => a.lastAccess - b.lastAccess);
+    const store = db.transaction(ENTRY_STORE, "readwrite").objectStore(ENTRY_STORE);
+    for (const e of all) {
+      if (count <= MAX_ENTRIES * EVICT_TO_RATIO && bytes <= MAX_BYTES * EVICT_TO_RATIO) break;
+      store.delete(e.key);
+      memory.delete(e.key);
+      count--;
+      bytes -= e.size;
+    }
+  } catch {
+    /* ignore */
+  }
+}
+
+export async function getTranslationCacheStats(): Promise<TranslationCacheStats> {
+  const stats: TranslationCacheStats = { totalEntries: 0, totalBytes: 0, byLang: {} };
+  const bucket = (lang: string) => {
+    if (!stats.byLang[lang]) stats.byLang[lang] = { entries: 0, bytes: 0, hits: 0, misses: 0 };
+    return stats.byLang[lang];
+  };
+
+  const db = await dbPromise;
+  let entries: { key: string; lang: string; size: number }[] = [];
+  if (db) {
+    try {
+      entries = await promisify(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll() as IDBRequest<CacheEntry[]>);
+    } catch {
+      entries = [];
+    }
+  } else {
+    entries = Array.from(memory.entries()).map(([key, value]) => ({ key, lang: langOf(key), size: entrySize(key, value) }));
+  }
+  entries.forEach((e) => {
+    const b = bucket(e.lang);
+    b.entries++;
+    b.bytes += e.size;
+    stats.totalEntries++;
+    stats.totalBytes += e.size;
+  });
+  langStats.forEach((s) => {
+    const b = bucket(s.lang);
+    b.hits = s.hits;
+    b.misses = s.misses;
+  });
+  return stats;
+}
+
+export async function clearTranslationCache() {
+  memory.clear();
+  langStats.clear();
+  try {
+    sessionStorage.removeItem(LEGACY_SESSION_KEY);
+  } catch {
+    /* ignore */
+  }
+  const db = await dbPromise;
+  if (!db) return;
+  const tx = db.transaction([ENTRY_STORE, STATS_STORE], "readwrite");
+  tx.objectStore(ENTRY_STORE).clear();
+  tx.objectStore(STATS_STORE).clear();
+  await new Promise((resolve) => {
+    tx.oncomplete = resolve;
+    tx.onerror = resolve;
+  });
+}
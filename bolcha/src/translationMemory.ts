@@ -0,0 +1,43 @@
+// Shared translation memory in Firestore
+// (`translationMemory/{sha256(normalized text)}_{source}_{target}`, source "auto" when unknown).
+// Identical short phrases are translated once for all users. The Cloud Function proxy writes
+// entries (see functions/index.js); clients only read them before hitting any endpoint.
+// Keep `normalizeMemoryText` / the doc id format in sync with the functions code.
+
+import { db } from "./firebase";
+import { doc, getDoc } from "firebase/firestore";
+
+// Longer messages are unlikely to repeat and are not worth a Firestore read
+export const MEMORY_MAX_TEXT_LENGTH = 500;
+
+export function normalizeMemoryText(text: string): string {
+  return text.normalize("NFC").trim().replace(/[ \t]+/g, " ");
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(buf))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// The source language is part of the id, so a corrected source never gets the entry
+// translated from the wrong one
+export async function memoryDocId(text: string, targetLang: string, sourceLang?: string): Promise<string> {
+  return `${await sha256Hex(normalizeMemoryText(text))}_${sourceLang || "auto"}_${targetLang}`;
+}
+
+export async function lookupTranslationMemory(text: string, targetLang: string, sourceLang?: string): Promise<string | null> {
+  const normalized = normalizeMemoryText(text);
+  if (!normalized || normalized.length > MEMORY_MAX_TEXT_LENGTH) return null;
+  try {
+    const snap = await getDoc(doc(db, "translationMemory", await memoryDocId(normalized, targetLang, sourceLang)));
+    if (!snap.exists()) return null;
+    const data = snap.data();
+    // guard against hash collisions / foreign data
+    if (data?.source !== normalized || typeof data?.translation !== "string") return null;
+    return data.translation;
+  } catch {
+    return null; // permission or network problems → just translate normally
+  }
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { isAbortError, schedule, setPoolConcurrency } from "./translationPool";
+
+// A job that runs until `release` is called
+function blocker() {
+  let release = () => {};
+  const done = schedule(() => new Promise<void>((resolve) => { release = resolve; }));
+  return { done, release: () => release() };
+}
+
+// Schedules jobs that record their name when they start
+function recorder() {
+  const started: string[] = [];
+  const job = (name: string, opts?: Parameters<typeof schedule>[1]) =>
+    schedule(async () => {
+      started.push(name);
+      return name;
+    }, opts);
+  return { started, job };
+}
+
+describe("translation pool", () => {
+  afterEach(() => setPoolConcurrency(1));
+
+  it("runs higher priorities first and equal priorities in FIFO order", async () => {
+    setPoolConcurrency(1);
+    const gate = blocker();
+    const { started, job } = recorder();
+    const jobs = [
+      job("old", { priority: 1 }),
+      job("newest", { priority: 3 }),
+      job("default"),
+      job("new-a", { priority: 2 }),
+      job("new-b", { priority: 2 }),
+    ];
+    expect(started).toEqual([]);
+    gate.release();
+    await Promise.all([gate.done, ...jobs]);
+    expect(started).toEqual(["newest", "new-a", "new-b", "old", "default"]);
+  });
+
+  it("never runs more jobs than the concurrency allows", async () => {
+    setPoolConcurrency(2);
+    const gates = [blocker(), blocker()];
+    const { started, job } = recorder();
+    const queued = job("queued");
+    await Promise.resolve();
+    expect(started).toEqual([]);
+    gates[0].release();
+    await queued;
+    expect(started).toEqual(["queued"]);
+    gates[1].release();
+    await Promise.all(gates.map((g) => g.done));
+  });
+
+  it("starts queued jobs when the concurrency is raised", async () => {
+    setPoolConcurrency(1);
+    const gate = blocker();
+    const { started, job } = recorder();
+    const queued = job("queued");
+    setPoolConcurrency(2);
+    await queued;
+    expect(started).toEqual(["queued"]);
+    gate.release();
+    await gate.done;
+  });
+
+  it("drops a queued job whose signal is aborted without running it", async () => {
+    setPoolConcurrency(1);
+    const gate = blocker();
+    const { started, job } = recorder();
+    const controller = new AbortController();
+    const cancelled = job("cancelled", { priority: 5, signal: controller.signal });
+    const kept = job("kept");
+    controller.abort();
+    await expect(cancelled).rejects.toSatisfy(isAbortError);
+    gate.release();
+    await expect(kept).resolves.toBe("kept");
+    expect(started).toEqual(["kept"]);
+  });
+
+  it("rejects at once when the signal is already aborted", async () => {
+    const { started, job } = recorder();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(job("late", { signal: controller.signal })).rejects.toSatisfy(isAbortError);
+    expect(started).toEqual([]);
+  });
+
+  it("does not cancel a job that already started", async () => {
+    setPoolConcurrency(1);
+    const controller = new AbortController();
+    let finish = () => {};
+    const running = schedule(() => new Promise<string>((resolve) => { finish = () => resolve("done"); }), { signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+    finish();
+    await expect(running).resolves.toBe("done");
+  });
+});
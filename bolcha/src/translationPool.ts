@@ -0,0 +1,96 @@
+// Bounded-concurrency scheduler for translation requests.
+// Jobs with a higher `priority` run first (ChatRoom passes the message timestamp so the
+// newest visible messages are translated first); equal priorities keep FIFO order.
+// A queued job whose `signal` is aborted is dropped without ever hitting an endpoint.
+
+export interface ScheduleOptions {
+  priority?: number;
+  signal?: AbortSignal;
+}
+
+interface Job {
+  seq: number;
+  priority: number;
+  signal?: AbortSignal;
+  run: () => Promise<unknown>;
+  resolve: (v: unknown) => void;
+  reject: (e: unknown) => void;
+  onAbort?: () => void;
+}
+
+let maxConcurrent = 1;
+let running = 0;
+let seqCounter = 0;
+const queue: Job[] = [];
+
+export function abortError(): DOMException {
+  return new DOMException("Translation cancelled", "AbortError");
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// Called by translation.ts whenever the endpoint list changes
+export function setPoolConcurrency(n: number) {
+  maxConcurrent = Math.max(1, Math.floor(n));
+  pump();
+}
+
+export function schedule<T>(run: () => Promise<T>, opts: ScheduleOptions = {}): Promise<T> {
+  const { priority = 0, signal } = opts;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const job: Job = {
+      seq: seqCounter++,
+      priority,
+      signal,
+      run,
+      resolve: resolve as (v: unknown) => void,
+      reject,
+    };
+    if (signal) {
+      job.onAbort = () => {
+        const idx = queue.indexOf(job);
+        if (idx !== -1) {
+          queue.splice(idx, 1);
+          reject(abortError());
+        }
+      };
+      signal.addEventListener("abort", job.onAbort, { once: true });
+    }
+    insert(job);
+    pump();
+  });
+}
+
+// keep queue sorted: highest priority first, then oldest first
+function insert(job: Job) {
+  let i = queue.length;
+  while (i > 0) {
+    const prev = queue[i - 1];
+    if (prev.priority > job.priority || (prev.priority === job.priority && prev.seq < job.seq)) break;
+    i--;
+  }
+  queue.splice(i, 0, job);
+}
+
+function pump() {
+  while (running < maxConcurrent && queue.length) {
+    const job = queue.shift()!;
+    if (job.signal && job.onAbort) job.signal.removeEventListener("abort", job.onAbort);
+    if (job.signal?.aborted) {
+      job.reject(abortError());
+      continue;
+    }
+    running++;
+    job
+      .run()
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        running--;
+        pump();
+      });
+  }
+}
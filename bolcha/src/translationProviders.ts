@@ -0,0 +1,335 @@
+// Translation backends used by `translation.ts`.
+// Each entry of `admin/config.gasEndpoints` (or `VITE_GAS_ENDPOINTS`) becomes one provider.
+// Plain string entries are GAS URLs; other backends are selected either with an object entry
+// `{ type, url }` (Firestore) or a `type:` prefix on the URL (e.g. `proxy:https://...`).
+// LibreTranslate and DeepL are proxy upstreams only (functions/index.js): their API keys must
+// stay server-side and DeepL refuses browser requests (CORS). Such entries are parsed, so the
+// admin page can show and move them, but no provider is created for them here.
+
+import type { ClientEndpoint, ClientProviderType, TranslationEndpoint, TranslationProviderType, GasEndpointEntry } from "./types";
+import { auth } from "./firebase";
+import { CHAT_LANGUAGES } from "./chatLanguages";
+
+export interface TranslateOptions {
+  source?: string;      // ISO-639-1 code of the source text, when known
+  signal?: AbortSignal; // aborts the underlying fetch
+}
+
+export interface TranslationProvider {
+  id: string; // stable key for this endpoint (type + url)
+  type: ClientProviderType;
+  url: string;
+  // Resolve to the translated text, or null when this endpoint could not translate.
+  translate(text: string, targetLang: string, opts?: TranslateOptions): Promise<string | null>;
+  // Native multi-text API; providers without one get delimiter-packed text from translation.ts
+  translateBatch?(texts: string[], targetLang: string, opts?: TranslateOptions): Promise<string[] | null>;
+}
+
+const PROVIDER_TYPES: TranslationProviderType[] = ["gas", "proxy", "libre", "deepl", "mock"];
+const CLIENT_PROVIDER_TYPES: ClientProviderType[] = ["gas", "proxy", "mock"];
+
+// Failures a provider can explain are thrown instead of returned as null, so health tracking
+// (endpointHealth.ts) can record the reason and count quota exhaustion separately.
+//   quota      → backend quota used up (opens the circuit at once)
+//   rate-limit → too many requests right now (opens the circuit at once)
+//   rejected   → this request is invalid for the endpoint (e.g. text too long); not a health issue
+//   error      → anything else
+export type ProviderErrorKind = "quota" | "rate-limit" | "rejected" | "error";
+
+const ERROR_NAMES: Record<ProviderErrorKind, string> = {
+  quota: "QuotaExceededError",
+  "rate-limit": "RateLimitedError",
+  rejected: "TranslationRejectedError",
+  error: "TranslationProviderError",
+};
+
+export function providerError(message: string, kind: ProviderErrorKind = "error"): Error {
+  const err = new Error(message);
+  err.name = ERROR_NAMES[kind];
+  return err;
+}
+
+export function providerErrorKind(err: unknown): ProviderErrorKind | null {
+  if (!(err instanceof Error)) return null;
+  const entry = Object.entries(ERROR_NAMES).find(([, name]) => name === err.name);
+  return entry ? (entry[0] as ProviderErrorKind) : null;
+}
+
+export function isQuotaExceededError(err: unknown): boolean {
+  return providerErrorKind(err) === "quota";
+}
+
+function isProviderError(err: unknown): boolean {
+  return providerErrorKind(err) !== null;
+}
+
+// Cloud Functions / Cloud Run URLs are the Bolcha translate proxy, which needs an ID token
+const PROXY_URL_RE = /^https:\/\/[^/]+\.(cloudfunctions\.net|run\.app)\//;
+
+function isProviderType(v: unknown): v is TranslationProviderType {
+  return typeof v === "string" && (PROVIDER_TYPES as string[]).includes(v);
+}
+
+// Turn a raw config entry into a normalized endpoint description
+export function parseEndpointEntry(entry: GasEndpointEntry | unknown): TranslationEndpoint | null {
+  if (typeof entry === "string") {
+    const trimmed = entry.trim();
+    if (!trimmed) return null;
+    const m = trimmed.match(/^(gas|proxy|libre|deepl|mock):(.*)$/);
+    if (m) {
+      return { type: m[1] as TranslationProviderType, url: m[2].trim() };
+    }
+    return { type: PROXY_URL_RE.test(trimmed) ? "proxy" : "gas", url: trimmed };
+  }
+  if (entry && typeof entry === "object") {
+    const obj = entry as Partial<TranslationEndpoint>;
+    const type = isProviderType(obj.type) ? obj.type : "gas";
+    const url = typeof obj.url === "string" ? obj.url.trim() : "";
+    if (!url && type !== "mock") return null;
+    return {
+      type,
+      url,
+      ...(obj.label ? { label: obj.label } : {}),
+    };
+  }
+  return null;
+}
+
+// Whether the browser may call this endpoint itself (libre / deepl go through the proxy)
+export function isClientEndpoint(ep: TranslationEndpoint): ep is ClientEndpoint {
+  return (CLIENT_PROVIDER_TYPES as TranslationProviderType[]).includes(ep.type);
+}
+
+// Human readable label used in the admin page and logs
+export function describeEndpoint(ep: TranslationEndpoint): string {
+  if (ep.label) return ep.label;
+  if (ep.type === "mock") return "mock";
+  return ep.type === "gas" ? ep.url : `${ep.type}: ${ep.url}`;
+}
+
+// Key used for per-endpoint state (load balancing, circuit breaker, health)
+export function endpointId(ep: TranslationEndpoint): string {
+  return `${ep.type}:${ep.url}`;
+}
+
+export function createProvider(ep: ClientEndpoint): TranslationProvider {
+  const id = endpointId(ep);
+  switch (ep.type) {
+    case "proxy":
+      return {
+        id, type: ep.type, url: ep.url,
+        translate: async (t, l, o) => (await proxyTranslate(ep, [t], l, o))?.[0] ?? null,
+        translateBatch: (ts, l, o) => proxyTranslate(ep, ts, l, o),
+      };
+    case "mock":
+      return {
+        id, type: ep.type, url: ep.url,
+        translate: async (t, l, o) => (await mockTranslate([t], l, o))[0],
+        translateBatch: (ts, l, o) => mockTranslate(ts, l, o),
+      };
+    case "gas":
+    default:
+      return { id, type: "gas", url: ep.url, translate: (t, l, o) => gasTranslate(ep, t, l, o) };
+  }
+}
+
+/* ---------- GAS (Google Apps Script) ---------- */
+
+// POST first, then GET fallback
+async function gasTranslate(
+  ep: TranslationEndpoint,
+  text: string,
+  targetLang: string,
+  opts?: TranslateOptions
+): Promise<string | null> {
+  const payload: Record<string, string> = { text, target: targetLang };
+  if (opts?.source) payload.source = opts.source;
+
+  try {
+    const postRes = await fetch(ep.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: opts?.signal,
+    });
+    if (postRes.ok) {
+      return await safeParse(postRes);
+    }
+    if (postRes.status === 429) throw providerError("HTTP 429", "rate-limit");
+  } catch (e) {
+    if (opts?.signal?.aborted || isProviderError(e)) throw e;
+    /* fall through to GET */
+  }
+
+  try {
+    const params = new URLSearchParams(payload);
+    const getRes = await fetch(`${ep.url}?${params.toString()}`, { signal: opts?.signal });
+    if (getRes.ok) {
+      return await safeParse(getRes);
+    }
+    if (getRes.status === 429) throw providerError("HTTP 429", "rate-limit");
+    throw providerError(`HTTP ${getRes.status}`);
+  } catch (e) {
+    if (opts?.signal?.aborted || isProviderError(e)) throw e;
+    /* endpoint unreachable */
+  }
+  return null;
+}
+
+// LanguageApp quota errors ("Service invoked too many times for one day: translate.")
+const GAS_QUOTA_RE = /too many times|quota|rate limit/i;
+
+// Only error payloads are checked: a translated message may itself mention a quota
+function isGasQuotaResponse(txt: string): boolean {
+  let errorText = txt;
+  try {
+    const obj = JSON.parse(txt);
+    if (obj?.translatedText || obj?.text || obj?.translation) return false;
+    errorText = String(obj?.error ?? obj?.message ?? "");
+  } catch {
+    if (!txt.trim().startsWith("<")) return false;
+  }
+  return GAS_QUOTA_RE.test(errorText);
+}
+
+async function safeParse(res: Response): Promise<string | null> {
+  let txt: string;
+  try {
+    txt = await res.text();
+  } catch {
+    return null;
+  }
+  if (isGasQuotaResponse(txt)) throw providerError("GAS quota exceeded", "quota");
+
+  try {
+    if (!txt) return null;
+
+    // Heuristic to detect if the response is HTML, which is unexpected.
+    // It might be a fallback page from a proxy or a misconfigured endpoint.
+    if (txt.trim().startsWith("<") && txt.includes("html")) {
+      return null; // Ignore HTML responses
+    }
+
+    let raw: string | null = null;
+    try {
+      // Prefer JSON parsing
+      const obj = JSON.parse(txt);
+      const maybeText = obj.translatedText || obj.text || obj.translation || null;
+      if (typeof maybeText === "string") {
+        raw = maybeText;
+      } else {
+        return maybeText;
+      }
+    } catch {
+      // Fallback for non-JSON responses
+      raw = txt;
+    }
+
+    if (raw) {
+      // First, decode common HTML entities that might be in a plain text response
+      const decoded = raw
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, "&");
+
+      // Normalize newlines and <br> tags, then strip any remaining HTML tags.
+      const cleaned = decoded
+        .replace(/\\n/g, "\n") // unescape \n
+        .replace(/<br\s*\/?>/gi, "\n") // <br> to newline
+        .replace(/<\/p>\s*<p>/gi, "\n\n") // paragraph breaks
+        .replace(/<[^>]*>/g, "") // strip all other tags
+        .replace(/\r\n/g, "\n") // normalize Windows line endings
+        .replace(/\r/g, "\n") // normalize Mac line endings
+        .trim();
+
+      return cleaned;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/* ---------- Bolcha translate proxy (functions/index.js) ---------- */
+
+// Structured error codes of the proxy → how the client treats them
+const PROXY_ERROR_KINDS: Record<string, ProviderErrorKind> = {
+  "quota-exceeded": "quota",
+  "rate-limited": "rate-limit",
+  "text-too-long": "rejected",
+  "invalid-argument": "rejected",
+};
+
+interface ProxyResponse {
+  translatedText?: unknown; // single text
+  translations?: unknown;   // batch, in request order
+}
+
+// The proxy only accepts the chat languages; other detected sources are left to the upstream
+function proxySource(source: string | undefined): string | undefined {
+  return source && CHAT_LANGUAGES.some(([code]) => code === source) ? source : undefined;
+}
+
+// One POST to the proxy; resolves to the JSON body of a successful response
+async function proxyRequest(
+  ep: TranslationEndpoint,
+  payload: Record<string, unknown>,
+  opts?: TranslateOptions,
+  forceTokenRefresh = false
+): Promise<ProxyResponse> {
+  const token = await auth.currentUser?.getIdToken(forceTokenRefresh);
+  if (!token) throw providerError("not signed in", "rejected");
+  const source = proxySource(opts?.source);
+  const res = await fetch(ep.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(source ? { ...payload, source } : payload),
+    signal: opts?.signal,
+  });
+  if (res.ok) return res.json();
+
+  let code = "";
+  let message = `HTTP ${res.status}`;
+  try {
+    const body = await res.json();
+    code = body?.error?.code ?? "";
+    message = body?.error?.message ? `${code}: ${body.error.message}` : message;
+  } catch {
+    /* not a structured error */
+  }
+  // an expired token is refreshed once before giving up
+  if (code === "unauthenticated" && !forceTokenRefresh) {
+    return proxyRequest(ep, payload, opts, true);
+  }
+  throw providerError(message, PROXY_ERROR_KINDS[code] ?? "error");
+}
+
+// `texts` are sent as one batch request (`{ texts }` → `{ translations }`)
+async function proxyTranslate(
+  ep: TranslationEndpoint,
+  texts: string[],
+  targetLang: string,
+  opts?: TranslateOptions
+): Promise<string[] | null> {
+  try {
+    const json = texts.length === 1
+      ? { translations: [(await proxyRequest(ep, { text: texts[0], target: targetLang }, opts))?.translatedText] }
+      : await proxyRequest(ep, { texts, target: targetLang }, opts);
+    const out: unknown[] = Array.isArray(json?.translations) ? json.translations : [];
+    return out.length === texts.length && out.every((t) => typeof t === "string") ? (out as string[]) : null;
+  } catch (e) {
+    if (opts?.signal?.aborted || isProviderError(e)) throw e;
+    return null;
+  }
+}
+
+/* ---------- Local mock ---------- */
+
+// Stand-in for local development and testing: tags the text with the target language
+async function mockTranslate(texts: string[], targetLang: string, opts?: TranslateOptions): Promise<string[]> {
+  await new Promise((r) => setTimeout(r, 150));
+  if (opts?.signal?.aborted) throw new DOMException("Translation cancelled", "AbortError");
+  return texts.map((t) => `[${targetLang}] ${t}`);
+}
@@ -3,6 +3,7 @@ declare module 'firebase/firestore' {
   export const getFirestore: any;
   export const doc: any;
   export const collection: any;
+  export const collectionGroup: any;
   export const addDoc: any;
   export const getDocs: any;
   export const getDoc: any;
@@ -15,6 +16,17 @@ declare module 'firebase/firestore' {
   export const serverTimestamp: any;
   export const arrayUnion: any;
   export const arrayRemove: any;
+  export const deleteField: any;
+  export const where: any;
+  export const increment: any;
+  export const limit: any;
+  export const limitToLast: any;
+  export const startAt: any;
+  export const startAfter: any;
+  export const endAt: any;
+  export const endBefore: any;
+  export const writeBatch: any;
+  export type QueryDocumentSnapshot = any;
 }
 
 declare module 'firebase/auth' {
@@ -8,6 +8,7 @@ export interface UserPreferences {
   side?: 'left' | 'right';
   showOriginal?: boolean;
   lang?: string;
+  knownLangs?: string[]; // languages shown untranslated besides `lang`
   enterToSend?: boolean;
 }
 
@@ -20,6 +21,7 @@ export interface RoomData {
   createdBy: string;
   createdAt: FirestoreTimestamp;
   lastActivityAt: FirestoreTimestamp;
+  glossary?: GlossaryEntry[]; // overrides admin/config.glossary in this room
 }
 
 export interface Message {
@@ -28,8 +30,50 @@ export interface Message {
   uid: string;
   createdAt: Date;
   readBy?: string[];
-  likes?: string[];
+  likes?: string[]; // hearts from before `reactions`; shown as ❤️ reactions
+  reactions?: Record<string, string[]>; // emoji → uids of the users who reacted
+  mentions?: string[]; // uids mentioned with @handle in the text (see mentions.ts)
   replyTo?: string;
+  threadId?: string; // root message of the thread this reply belongs to
+  showInRoom?: boolean; // thread reply also shown in the room timeline
+  replyCount?: number; // thread replies (on the root; kept by Cloud Functions)
   originalLang?: string; // ISO-639-1 code of source language
+  langs?: string[]; // all languages of a mixed-language message, largest part first
   translations?: Record<string, string>; // cached translations per language
-}
\ No newline at end of file
+  editedAt?: Date; // last edit by the author; earlier versions are kept in `edits`
+}
+
+// Earlier version of an edited message (`rooms/{roomId}/messages/{msgId}/edits/{editId}`)
+export interface MessageEdit {
+  id: string;
+  text: string;
+  originalLang?: string;
+  editedAt: Date; // when this version was replaced
+}
+
+// Backends the browser calls itself
+export type ClientProviderType = 'gas' | 'proxy' | 'mock';
+// Config entries may also name LibreTranslate / DeepL, which only the translate proxy calls
+export type TranslationProviderType = ClientProviderType | 'libre' | 'deepl';
+
+export interface TranslationEndpoint {
+  type: TranslationProviderType;
+  url: string;
+  label?: string;
+}
+
+export interface ClientEndpoint extends TranslationEndpoint {
+  type: ClientProviderType;
+}
+
+// Entry of `admin/config.gasEndpoints`: a plain string is a GAS URL
+export type GasEndpointEntry = string | TranslationEndpoint;
+
+// Glossary entry (`admin/config.glossary`, `rooms/{id}.glossary`): `term` is always translated
+// to `translation` for this language pair. `sourceLang` "*" matches any source language.
+export interface GlossaryEntry {
+  sourceLang: string;
+  targetLang: string;
+  term: string;
+  translation: string;
+}